@@ -0,0 +1,192 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { DeviceMotion, MotionSample, OrientationCalibration } from '../types/camera';
+import {
+  CALIBRATION_DURATION_MS,
+  CalibrationRecording,
+  computeCalibration,
+  describeCalibration,
+  getCalibratedPose
+} from '../utils/calibration';
+
+interface CalibrationWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  motion: DeviceMotion | null;
+  addSampleListener: (listener: (sample: MotionSample) => void) => () => void;
+  calibration: OrientationCalibration | null;
+  onSave: (calibration: OrientationCalibration) => void;
+  onClear: () => void;
+}
+
+type WizardStep = 'intro' | 'recording' | 'review' | 'failed';
+
+export const CalibrationWizard: React.FC<CalibrationWizardProps> = ({
+  open,
+  onOpenChange,
+  motion,
+  addSampleListener,
+  calibration,
+  onSave,
+  onClear
+}) => {
+  const [step, setStep] = React.useState<WizardStep>('intro');
+  const [measureGyroBias, setMeasureGyroBias] = React.useState(true);
+  const [progress, setProgress] = React.useState(0);
+  const [result, setResult] = React.useState<OrientationCalibration | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const recordingRef = React.useRef<CalibrationRecording>({ poses: [], rotationRates: [] });
+
+  React.useEffect(() => {
+    if (open) {
+      setStep('intro');
+      setResult(null);
+      setError(null);
+    }
+  }, [open]);
+
+  // Neutral pose from the raw (uncalibrated) orientation, once per update
+  React.useEffect(() => {
+    if (step !== 'recording' || !motion) return;
+    const pose = getCalibratedPose(motion, null);
+    recordingRef.current.poses.push({ pitch: pose.pitch, roll: pose.roll });
+  }, [step, motion]);
+
+  React.useEffect(() => {
+    if (step !== 'recording') return;
+
+    const removeListener = addSampleListener(sample => {
+      if (sample.type === 'motion' && sample.rotationRate) {
+        recordingRef.current.rotationRates.push(sample.rotationRate);
+      }
+    });
+
+    const startedAt = performance.now();
+    const interval = window.setInterval(() => {
+      const elapsed = performance.now() - startedAt;
+      setProgress(Math.min(1, elapsed / CALIBRATION_DURATION_MS));
+      if (elapsed < CALIBRATION_DURATION_MS) return;
+
+      window.clearInterval(interval);
+      const outcome = computeCalibration(recordingRef.current, measureGyroBias);
+      if ('error' in outcome) {
+        setError(outcome.error);
+        setStep('failed');
+      } else {
+        setResult(outcome.calibration);
+        setStep('review');
+      }
+    }, 100);
+
+    return () => {
+      window.clearInterval(interval);
+      removeListener();
+    };
+  }, [step, addSampleListener, measureGyroBias]);
+
+  const startRecording = () => {
+    recordingRef.current = { poses: [], rotationRates: [] };
+    setProgress(0);
+    setError(null);
+    setStep('recording');
+  };
+
+  const handleSave = () => {
+    if (!result) return;
+    onSave(result);
+    onOpenChange(false);
+  };
+
+  const handleClear = () => {
+    onClear();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Calibrate orientation</DialogTitle>
+          <DialogDescription>
+            Teaches the guide how you hold the phone, so "level" means level for you.
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'intro' && (
+          <div className="space-y-4 text-sm">
+            <ol className="list-decimal list-inside space-y-1">
+              <li>Hold the phone the way you will while shooting.</li>
+              <li>Aim the camera at the horizon, keeping it as level as you can.</li>
+              <li>Keep still for {CALIBRATION_DURATION_MS / 1000} seconds.</li>
+            </ol>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="measure-gyro-bias">Also measure gyroscope bias</Label>
+              <Switch
+                id="measure-gyro-bias"
+                checked={measureGyroBias}
+                onCheckedChange={setMeasureGyroBias}
+              />
+            </div>
+            <div className="text-xs text-muted-foreground">
+              Current: {describeCalibration(calibration)}
+            </div>
+            {!motion && (
+              <div className="text-xs text-destructive">Waiting for motion sensor readings...</div>
+            )}
+          </div>
+        )}
+
+        {step === 'recording' && (
+          <div className="space-y-2">
+            <Progress value={progress * 100} />
+            <div className="text-sm text-muted-foreground">Hold still...</div>
+          </div>
+        )}
+
+        {step === 'review' && result && (
+          <div className="space-y-1 text-sm">
+            <div>Pitch offset: {result.pitchOffset.toFixed(1)}°</div>
+            <div>Roll offset: {result.rollOffset.toFixed(1)}°</div>
+            {result.gyroBias && (
+              <div>
+                Gyro bias: α {result.gyroBias.alpha.toFixed(2)} β {result.gyroBias.beta.toFixed(2)} γ {result.gyroBias.gamma.toFixed(2)} °/s
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === 'failed' && (
+          <div className="text-sm text-destructive">{error}</div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {step === 'intro' && (
+            <>
+              {calibration && (
+                <Button variant="outline" onClick={handleClear}>Clear calibration</Button>
+              )}
+              <Button onClick={startRecording} disabled={!motion}>Start</Button>
+            </>
+          )}
+          {(step === 'review' || step === 'failed') && (
+            <Button variant="outline" onClick={startRecording}>Record again</Button>
+          )}
+          {step === 'review' && (
+            <Button onClick={handleSave}>Save calibration</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,5 +1,16 @@
 
 import React from 'react';
+import {
+  CaptureLayoutId,
+  CaptureRow,
+  PanoramaSpan,
+  PointSpacingMode,
+  SweepDirection,
+  SweepOptions,
+  SweepStart
+} from '../types/camera';
+import { CapturePlan } from '../types/capturePlan';
+import { CAPTURE_LAYOUTS } from '../utils/cameraUtils';
 
 interface CameraControlsProps {
   onStartSession: () => void;
@@ -7,7 +18,22 @@ interface CameraControlsProps {
   onResetSession: () => void;
   isSessionActive: boolean;
   totalPoints: number;
-  onPointsChange: (points: number) => void;
+  pointSpacing: PointSpacingMode;
+  onPointsChange: (points: number | 'auto') => void;
+  rows: CaptureRow[]; // Rows the next session will use
+  spacingSummary: string;
+  sweep: SweepOptions;
+  onSweepChange: (changes: Partial<SweepOptions>) => void;
+  layout: CaptureLayoutId;
+  onLayoutChange: (layout: CaptureLayoutId) => void;
+  plan: CapturePlan | null;
+  onImportPlan: (file: File) => void;
+  onExportPlan: () => void;
+  onOpenSettings: () => void;
+  onOpenHistory: () => void;
+  onCalibrate: () => void;
+  autoCapture: boolean;
+  onAutoCaptureChange: (enabled: boolean) => void;
 }
 
 export const CameraControls: React.FC<CameraControlsProps> = ({
@@ -16,35 +42,180 @@ export const CameraControls: React.FC<CameraControlsProps> = ({
   onResetSession,
   isSessionActive,
   totalPoints,
-  onPointsChange
+  pointSpacing,
+  onPointsChange,
+  rows,
+  spacingSummary,
+  sweep,
+  onSweepChange,
+  layout,
+  onLayoutChange,
+  plan,
+  onImportPlan,
+  onExportPlan,
+  onOpenSettings,
+  onOpenHistory,
+  onCalibrate,
+  autoCapture,
+  onAutoCaptureChange
 }) => {
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const isPlanLayout = layout === 'plan' && !!plan;
+  const plannedPoints = rows.reduce((sum, row) => sum + row.count, 0);
+
+  const calibrateButton = (
+    <button
+      onClick={onCalibrate}
+      className="w-full bg-white bg-opacity-20 hover:bg-opacity-30 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200"
+    >
+      Calibrate
+    </button>
+  );
+
+  const autoCaptureToggle = (
+    <label className="flex items-center justify-between gap-3 text-white text-sm cursor-pointer">
+      <span>Auto-capture</span>
+      <input
+        type="checkbox"
+        checked={autoCapture}
+        onChange={(e) => onAutoCaptureChange(e.target.checked)}
+        className="accent-green-500 w-4 h-4"
+      />
+    </label>
+  );
+
   return (
     <div className="absolute top-4 right-4 pointer-events-auto">
       <div className="bg-black bg-opacity-50 rounded-lg p-3 backdrop-blur-sm space-y-3">
         {!isSessionActive ? (
           <>
             <div className="text-white text-sm">
-              <label className="block mb-1">Points to capture:</label>
+              <label className="block mb-1">Layout:</label>
               <select
-                value={totalPoints}
-                onChange={(e) => onPointsChange(Number(e.target.value))}
+                value={layout}
+                onChange={(e) => onLayoutChange(e.target.value as CaptureLayoutId)}
                 className="bg-white bg-opacity-20 text-white rounded px-2 py-1 text-sm"
               >
-                <option value={5}>5 Points</option>
-                <option value={7}>7 Points</option>
-                <option value={10}>10 Points</option>
-                <option value={15}>15 Points</option>
+                {CAPTURE_LAYOUTS.map(option => (
+                  <option key={option.id} value={option.id}>{option.label}</option>
+                ))}
+                {plan && <option value="plan">Plan: {plan.name}</option>}
               </select>
             </div>
+            {isPlanLayout && plan.description && (
+              <div className="text-white text-xs opacity-75 max-w-48">{plan.description}</div>
+            )}
+            {!isPlanLayout && (
+              <div className="text-white text-sm">
+                <label className="block mb-1">Sweep:</label>
+                <div className="flex space-x-1">
+                  <select
+                    value={sweep.span}
+                    onChange={(e) => onSweepChange({ span: Number(e.target.value) as PanoramaSpan })}
+                    className="bg-white bg-opacity-20 text-white rounded px-2 py-1 text-sm"
+                  >
+                    <option value={90}>90°</option>
+                    <option value={180}>180°</option>
+                    <option value={270}>270°</option>
+                    <option value={360}>360°</option>
+                  </select>
+                  <select
+                    value={sweep.direction}
+                    onChange={(e) => onSweepChange({ direction: e.target.value as SweepDirection })}
+                    className="bg-white bg-opacity-20 text-white rounded px-2 py-1 text-sm"
+                  >
+                    <option value="left-to-right">→</option>
+                    <option value="right-to-left">←</option>
+                  </select>
+                  <select
+                    value={sweep.start}
+                    onChange={(e) => onSweepChange({ start: e.target.value as SweepStart })}
+                    className="bg-white bg-opacity-20 text-white rounded px-2 py-1 text-sm"
+                  >
+                    <option value="edge">From edge</option>
+                    <option value="center">From centre</option>
+                  </select>
+                </div>
+              </div>
+            )}
+            {!isPlanLayout && (
+              <div className="text-white text-sm">
+                <label className="block mb-1">
+                  {layout === 'single-row' ? 'Points to capture:' : 'Points on horizon row:'}
+                </label>
+                <select
+                  value={pointSpacing === 'auto' ? 'auto' : totalPoints}
+                  onChange={(e) => onPointsChange(e.target.value === 'auto' ? 'auto' : Number(e.target.value))}
+                  className="bg-white bg-opacity-20 text-white rounded px-2 py-1 text-sm"
+                >
+                  <option value="auto">Auto (from lens)</option>
+                  <option value={5}>5 Points</option>
+                  <option value={7}>7 Points</option>
+                  <option value={10}>10 Points</option>
+                  <option value={15}>15 Points</option>
+                </select>
+                <div className="text-xs opacity-75 mt-1">{spacingSummary}</div>
+              </div>
+            )}
+            {(isPlanLayout || layout !== 'single-row') && (
+              <div className="text-white text-xs opacity-75 space-y-0.5">
+                {rows.map((row, index) => (
+                  <div key={index}>
+                    {row.pitch > 0 ? '+' : ''}{row.pitch}°: {row.count} {row.count === 1 ? 'shot' : 'shots'}
+                  </div>
+                ))}
+                <div className="font-medium">Total: {plannedPoints} shots</div>
+              </div>
+            )}
+            {autoCaptureToggle}
             <button
               onClick={onStartSession}
               className="w-full bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200"
             >
               Start Capture
             </button>
+            <button
+              onClick={onOpenSettings}
+              className="w-full bg-white bg-opacity-20 hover:bg-opacity-30 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200"
+            >
+              Settings
+            </button>
+            {calibrateButton}
+            <div className="flex space-x-2">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex-1 bg-white bg-opacity-20 hover:bg-opacity-30 text-white px-2 py-2 rounded-lg text-xs font-medium transition-colors duration-200"
+              >
+                Import Plan
+              </button>
+              <button
+                onClick={onExportPlan}
+                className="flex-1 bg-white bg-opacity-20 hover:bg-opacity-30 text-white px-2 py-2 rounded-lg text-xs font-medium transition-colors duration-200"
+              >
+                Export Plan
+              </button>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImportPlan(file);
+                e.target.value = '';
+              }}
+            />
+            <button
+              onClick={onOpenHistory}
+              className="w-full bg-white bg-opacity-20 hover:bg-opacity-30 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200"
+            >
+              History
+            </button>
           </>
         ) : (
           <div className="space-y-2">
+            {autoCaptureToggle}
             <button
               onClick={onStopSession}
               className="w-full bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200"
@@ -57,6 +228,7 @@ export const CameraControls: React.FC<CameraControlsProps> = ({
             >
               Reset
             </button>
+            {calibrateButton}
           </div>
         )}
       </div>
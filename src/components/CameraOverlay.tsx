@@ -1,79 +1,81 @@
 
 import React from 'react';
-import { CapturePoint, CameraAlignment } from '../types/camera';
+import { CapturePoint, CaptureRow, CameraAlignment, SweepOptions } from '../types/camera';
+import { CaptureLayoutMap } from './CaptureLayoutMap';
 
 interface CameraOverlayProps {
   points: CapturePoint[];
+  rows: CaptureRow[];
   currentPointIndex: number;
+  sweep?: SweepOptions;
   alignment: CameraAlignment;
-  onGuidanceUpdate: (direction: 'left' | 'right' | 'center') => void;
+  tolerance: number; // Degrees of yaw/pitch error the current point accepts
+  rollTolerance: number | null; // null where roll isn't checked for the current point
+  showHorizon: boolean;
 }
 
 export const CameraOverlay: React.FC<CameraOverlayProps> = ({
   points,
+  rows,
   currentPointIndex,
+  sweep,
   alignment,
-  onGuidanceUpdate
+  tolerance,
+  rollTolerance,
+  showHorizon
 }) => {
   const currentPoint = points[currentPointIndex];
-  const nextPoint = points[currentPointIndex + 1];
-
-  React.useEffect(() => {
-    // More sensitive guidance based on horizontal offset
-    if (alignment.horizontalOffset < -5) {
-      onGuidanceUpdate('left');
-    } else if (alignment.horizontalOffset > 5) {
-      onGuidanceUpdate('right');
-    } else {
-      onGuidanceUpdate('center');
-    }
-  }, [alignment.horizontalOffset, onGuidanceUpdate]);
+  const isYawAligned = Math.abs(alignment.yawError) < tolerance;
+  // Without a roll check the horizon is only a reference, so it stays neutral
+  const [horizonLine, horizonText] = rollTolerance === null ? ['bg-white', 'text-white'] :
+    alignment.isRollAligned ? ['bg-green-400', 'text-green-400'] : ['bg-yellow-400', 'text-yellow-400'];
 
   return (
     <div className="absolute inset-0 pointer-events-none">
       {/* Horizontal Guide Line */}
       <div className="absolute top-1/2 left-0 right-0 h-0.5 border-t-2 border-dashed border-white opacity-60" />
       
+      {/* Artificial horizon: stays level with the real one, meeting the guide line when the phone is level */}
+      {showHorizon && (
+        <div
+          className="absolute top-1/2 left-[-25%] right-[-25%] flex items-center transition-transform duration-100"
+          style={{ transform: `rotate(${-alignment.roll}deg)` }}
+        >
+          <div className={`flex-1 h-0.5 ${horizonLine}`} />
+          <div className={`mx-3 px-2 rounded bg-black bg-opacity-60 text-xs font-mono ${horizonText}`}>
+            {alignment.roll > 0 ? '+' : ''}{alignment.roll.toFixed(1)}°
+          </div>
+          <div className={`flex-1 h-0.5 ${horizonLine}`} />
+        </div>
+      )}
+
       {/* Vertical Center Line */}
       <div className="absolute top-0 bottom-0 left-1/2 w-0.5 border-l-2 border-dashed border-white opacity-40" />
       
-      {/* Guide Points */}
-      <div className="absolute top-1/2 left-0 right-0 flex justify-between px-8">
-        {points.map((point, index) => (
-          <div
-            key={point.id}
-            className={`w-6 h-6 rounded-full border-2 border-white flex items-center justify-center ${
-              index === currentPointIndex ? 'bg-blue-500 scale-125' : 
-              point.captured ? 'bg-green-500' : 'bg-transparent'
-            } transition-all duration-300`}
-            style={{
-              transform: 'translateY(-50%)',
-            }}
-          >
-            {point.captured && (
-              <div className="text-white text-xs font-bold">✓</div>
-            )}
-            {index === currentPointIndex && !point.captured && (
-              <div className="text-white text-xs font-bold">{index + 1}</div>
-            )}
-          </div>
-        ))}
+      {/* Capture Layout */}
+      <div className="absolute bottom-4 left-4">
+        <CaptureLayoutMap
+          points={points}
+          rows={rows}
+          currentPointIndex={currentPointIndex}
+          sweep={sweep}
+        />
       </div>
 
       {/* Device Motion Indicator */}
       <div className="absolute top-20 left-1/2 transform -translate-x-1/2">
         <div className="bg-black bg-opacity-70 rounded-lg p-3 backdrop-blur-sm">
           <div className="text-white text-xs text-center space-y-1">
-            <div>Tilt: {alignment.horizontalOffset.toFixed(1)}°</div>
-            <div className="w-32 h-2 bg-white bg-opacity-30 rounded-full">
+            <div>Turn: {alignment.yawError.toFixed(1)}° · Tilt: {alignment.pitchError.toFixed(1)}°</div>
+            <div className="w-32 h-2 bg-white bg-opacity-30 rounded-full mx-auto">
               <div 
                 className={`h-full rounded-full transition-all duration-200 ${
-                  Math.abs(alignment.horizontalOffset) < 5 ? 'bg-green-400' : 'bg-red-400'
+                  isYawAligned ? 'bg-green-400' : 'bg-red-400'
                 }`}
                 style={{ 
-                  width: `${Math.min(100, Math.abs(alignment.horizontalOffset) * 3)}%`,
-                  marginLeft: alignment.horizontalOffset > 0 ? '50%' : 'auto',
-                  marginRight: alignment.horizontalOffset < 0 ? '50%' : 'auto'
+                  width: `${Math.min(50, Math.abs(alignment.yawError))}%`,
+                  marginLeft: alignment.yawError > 0 ? '50%' : 'auto',
+                  marginRight: alignment.yawError < 0 ? '50%' : 'auto'
                 }}
               />
             </div>
@@ -96,7 +98,18 @@ export const CameraOverlay: React.FC<CameraOverlayProps> = ({
       <div className="absolute top-4 left-4 right-4">
         <div className="bg-black bg-opacity-50 rounded-full p-2 backdrop-blur-sm">
           <div className="flex justify-between items-center text-white text-sm">
-            <span>Point {currentPointIndex + 1} of {points.length}</span>
+            <span>
+              Point {currentPointIndex + 1} of {points.length}
+              {rows.length > 1 && currentPoint && (
+                <span className="opacity-75"> · {currentPoint.pitch > 0 ? '+' : ''}{currentPoint.pitch}°</span>
+              )}
+              {sweep && (
+                <span className="opacity-75"> · {sweep.span}° {sweep.direction === 'left-to-right' ? '→' : '←'}</span>
+              )}
+              {currentPoint?.label && (
+                <span className="opacity-75"> · {currentPoint.label}</span>
+              )}
+            </span>
             <span>{Math.round(((points.filter(p => p.captured).length) / points.length) * 100)}%</span>
           </div>
           <div className="w-full h-2 bg-white bg-opacity-30 rounded-full mt-2">
@@ -112,9 +125,16 @@ export const CameraOverlay: React.FC<CameraOverlayProps> = ({
       <div className="absolute bottom-32 left-1/2 transform -translate-x-1/2">
         <div className="bg-black bg-opacity-70 rounded-lg p-2 backdrop-blur-sm">
           <div className="text-white text-sm text-center font-medium">
-            {Math.abs(alignment.horizontalOffset) < 5 ? 'ALIGNED' : 
-             alignment.horizontalOffset > 0 ? 'TILT LEFT' : 'TILT RIGHT'}
+            {alignment.isAligned ? 'ALIGNED' :
+             !isYawAligned ? (alignment.yawError > 0 ? 'TURN RIGHT' : 'TURN LEFT') :
+             !alignment.isRollAligned ? 'LEVEL THE PHONE' :
+             alignment.pitchError > 0 ? 'TILT UP' : 'TILT DOWN'}
           </div>
+          {currentPoint?.instruction && (
+            <div className="text-white text-xs text-center opacity-75 mt-1 max-w-64">
+              {currentPoint.instruction}
+            </div>
+          )}
         </div>
       </div>
     </div>
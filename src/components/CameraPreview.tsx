@@ -0,0 +1,26 @@
+import React from 'react';
+import { CameraStreamStatus } from '../hooks/useCameraStream';
+
+interface CameraPreviewProps {
+  videoRef: React.RefObject<HTMLVideoElement>;
+  status: CameraStreamStatus;
+}
+
+export const CameraPreview: React.FC<CameraPreviewProps> = ({ videoRef, status }) => {
+  return (
+    <div className="absolute inset-0 bg-black">
+      <video
+        ref={videoRef}
+        autoPlay
+        playsInline
+        muted
+        className={`w-full h-full object-cover transition-opacity duration-300 ${
+          status === 'live' ? 'opacity-100' : 'opacity-0'
+        }`}
+      />
+      {status !== 'live' && (
+        <div className="absolute inset-0 bg-gradient-to-br from-gray-800 via-gray-900 to-black" />
+      )}
+    </div>
+  );
+};
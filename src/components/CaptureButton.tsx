@@ -1,36 +1,69 @@
-
 import React from 'react';
 
 interface CaptureButtonProps {
   isReady: boolean;
   isCapturing: boolean;
   onCapture: () => void;
+  autoCaptureEnabled?: boolean;
+  autoCaptureProgress?: number; // 0-1 of the dwell countdown
 }
 
+const RING_RADIUS = 46;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
+
 export const CaptureButton: React.FC<CaptureButtonProps> = ({
   isReady,
   isCapturing,
-  onCapture
+  onCapture,
+  autoCaptureEnabled = false,
+  autoCaptureProgress = 0
 }) => {
+  const isCountingDown = autoCaptureEnabled && autoCaptureProgress > 0 && !isCapturing;
+
   return (
     <div className="absolute bottom-8 left-1/2 transform -translate-x-1/2">
-      <button
-        onClick={onCapture}
-        disabled={!isReady || isCapturing}
-        className={`w-20 h-20 rounded-full border-4 border-white capture-button ${
-          isReady && !isCapturing ? 'ready' : 'disabled'
-        } transition-all duration-300 pointer-events-auto`}
-      >
-        {isCapturing ? (
-          <div className="w-8 h-8 bg-white rounded animate-pulse mx-auto" />
-        ) : (
-          <div className={`w-16 h-16 rounded-full mx-auto ${
-            isReady ? 'bg-white' : 'bg-gray-400'
-          }`} />
+      <div className="relative w-20 h-20">
+        <button
+          onClick={onCapture}
+          disabled={!isReady || isCapturing}
+          className={`w-20 h-20 rounded-full border-4 border-white capture-button ${
+            isReady && !isCapturing ? 'ready' : 'disabled'
+          } transition-all duration-300 pointer-events-auto`}
+        >
+          {isCapturing ? (
+            <div className="w-8 h-8 bg-white rounded animate-pulse mx-auto" />
+          ) : (
+            <div className={`w-16 h-16 rounded-full mx-auto ${
+              isReady ? 'bg-white' : 'bg-gray-400'
+            }`} />
+          )}
+        </button>
+
+        {/* Auto-capture countdown ring */}
+        {isCountingDown && (
+          <svg
+            className="absolute -inset-2 w-24 h-24 -rotate-90 pointer-events-none"
+            viewBox="0 0 100 100"
+          >
+            <circle
+              cx="50"
+              cy="50"
+              r={RING_RADIUS}
+              fill="none"
+              stroke="rgb(250, 204, 21)"
+              strokeWidth="6"
+              strokeLinecap="round"
+              strokeDasharray={RING_CIRCUMFERENCE}
+              strokeDashoffset={RING_CIRCUMFERENCE * (1 - autoCaptureProgress)}
+            />
+          </svg>
         )}
-      </button>
+      </div>
       <div className="text-white text-xs text-center mt-2 font-medium">
-        {isCapturing ? 'Capturing...' : isReady ? 'Tap to Capture' : 'Align Camera'}
+        {isCapturing ? 'Capturing...' :
+         isCountingDown ? 'Hold steady...' :
+         isReady ? (autoCaptureEnabled ? 'Auto-capture armed' : 'Tap to Capture') :
+         'Align Camera'}
       </div>
     </div>
   );
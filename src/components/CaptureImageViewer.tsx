@@ -0,0 +1,213 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  Carousel,
+  CarouselApi,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious
+} from '@/components/ui/carousel';
+import { CapturePoint } from '../types/camera';
+import { ZoomableImage } from './ZoomableImage';
+import { angleDifference } from '../utils/orientation';
+import { frameShiftFraction } from '../utils/overlap';
+import { describeQualityIssues } from '../utils/imageQuality';
+
+export interface ViewerImage {
+  point: CapturePoint;
+  src: string;
+}
+
+interface CaptureImageViewerProps {
+  images: ViewerImage[];
+  startIndex: number | null; // Closed when null
+  horizontalFov: number;
+  onClose: () => void;
+}
+
+const formatAngle = (value: number) => `${value.toFixed(1)}°`;
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Heading the image was actually taken at, falling back to its target
+const imageYaw = (point: CapturePoint) => point.capturedOrientation?.yaw ?? point.yaw;
+
+interface OverlapSeam {
+  neighbourId: number;
+  start: number; // 0-1 across this image where the neighbour's frame begins
+  end: number;
+}
+
+/**
+ * Where the previous and next images in the viewer overlap this one, going
+ * by the yaw they were shot at. Only neighbours in the same row are shown;
+ * those in other rows overlap vertically, not across the seam.
+ */
+const findOverlapSeams = (images: ViewerImage[], index: number, horizontalFov: number): OverlapSeam[] => {
+  const { point } = images[index];
+  return [images[index - 1], images[index + 1]]
+    .filter((neighbour): neighbour is ViewerImage => !!neighbour && neighbour.point.row === point.row)
+    .flatMap(({ point: neighbour }) => {
+      const delta = angleDifference(imageYaw(neighbour), imageYaw(point));
+      const shift = frameShiftFraction(delta, horizontalFov);
+      if (shift >= 1) return [];
+      return [delta > 0
+        ? { neighbourId: neighbour.id, start: shift, end: 1 }
+        : { neighbourId: neighbour.id, start: 0, end: 1 - shift }];
+    });
+};
+
+const useFileSize = (src: string | undefined) => {
+  const [size, setSize] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!src) return;
+    let cancelled = false;
+    setSize(null);
+    fetch(src)
+      .then(response => response.blob())
+      .then(blob => {
+        if (!cancelled) setSize(blob.size);
+      })
+      .catch(error => console.error('Could not read image size:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [src]);
+
+  return size;
+};
+
+const ImageMetadata: React.FC<{ image: ViewerImage; index: number; total: number }> = ({ image, index, total }) => {
+  const { point } = image;
+  const actual = point.capturedOrientation;
+  const fileSize = useFileSize(image.src);
+
+  return (
+    <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-white text-opacity-90">
+      <div className="col-span-2 text-sm font-medium">
+        {index + 1} / {total} · Point {point.id + 1}{point.label ? ` · ${point.label}` : ''}
+        {!!point.retakeCount && ` · retaken ${point.retakeCount}×`}
+      </div>
+      <div>Captured: {point.capturedAt ? point.capturedAt.toLocaleTimeString() : 'unknown'}</div>
+      <div>File size: {fileSize === null ? '…' : formatFileSize(fileSize)}</div>
+      <div>Target: yaw {formatAngle(point.yaw)}, pitch {formatAngle(point.pitch)}, roll {formatAngle(point.roll ?? 0)}</div>
+      <div>
+        {actual
+          ? `Actual: yaw ${formatAngle(actual.yaw)}, pitch ${formatAngle(actual.pitch)}, roll ${formatAngle(actual.roll)}`
+          : 'Actual: not recorded'}
+      </div>
+      {actual && (
+        <div>
+          Error: yaw {formatAngle(angleDifference(actual.yaw, point.yaw))}, pitch {formatAngle(actual.pitch - point.pitch)}, roll {formatAngle(actual.roll - (point.roll ?? 0))}
+        </div>
+      )}
+      <div className={point.quality?.issues.length ? 'text-red-400' : undefined}>
+        Sharpness: {point.quality ? point.quality.sharpness : 'not measured'}
+        {point.quality && point.quality.issues.length > 0 && ` · ${describeQualityIssues(point.quality.issues)}`}
+      </div>
+      {point.measuredOverlap !== undefined && (
+        <div className={point.overlapFlagged ? 'text-amber-400' : undefined}>
+          Overlap: {point.measuredOverlap === null ? 'not measured' : `${point.measuredOverlap}%`}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/** Full-screen, swipeable view of a session's captured images. */
+export const CaptureImageViewer: React.FC<CaptureImageViewerProps> = ({
+  images,
+  startIndex,
+  horizontalFov,
+  onClose
+}) => {
+  const [api, setApi] = useState<CarouselApi>();
+  const [selected, setSelected] = useState(0);
+  const isZoomed = useRef(false);
+  const handleZoomChange = useCallback((zoomed: boolean) => {
+    isZoomed.current = zoomed;
+  }, []);
+
+  // Kept stable: new options make the carousel re-initialise back at startIndex.
+  // While zoomed, dragging pans the image instead of changing slides.
+  const carouselOptions = useMemo(() => ({
+    startIndex: startIndex ?? 0,
+    watchDrag: () => !isZoomed.current
+  }), [startIndex]);
+
+  useEffect(() => {
+    if (startIndex !== null) setSelected(startIndex);
+  }, [startIndex]);
+
+  useEffect(() => {
+    if (!api) return;
+    const onSelect = () => setSelected(api.selectedScrollSnap());
+    api.on('select', onSelect);
+    return () => {
+      api.off('select', onSelect);
+    };
+  }, [api]);
+
+  const current = images[Math.min(selected, images.length - 1)];
+
+  return (
+    <Dialog open={startIndex !== null && images.length > 0} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-none w-screen h-[100dvh] p-4 gap-3 flex flex-col border-0 bg-black text-white sm:rounded-none">
+        <DialogTitle className="sr-only">Captured images</DialogTitle>
+        <DialogDescription className="sr-only">
+          Swipe between images, pinch or double-tap to zoom. Shaded bands mark where neighbouring images overlap.
+        </DialogDescription>
+
+        <Carousel
+          className="flex-1 min-h-0"
+          setApi={setApi}
+          opts={carouselOptions}
+        >
+          <CarouselContent>
+            {images.map((image, index) => (
+              <CarouselItem key={image.point.id} className="h-[75dvh]">
+                <ZoomableImage
+                  src={image.src}
+                  alt={`Point ${image.point.id + 1}`}
+                  active={index === selected}
+                  onZoomChange={index === selected ? handleZoomChange : undefined}
+                >
+                  {findOverlapSeams(images, index, horizontalFov).map(seam => (
+                    <div
+                      key={seam.neighbourId}
+                      className="absolute top-0 bottom-0 bg-sky-400 bg-opacity-15 border-sky-300 border-dashed pointer-events-none"
+                      style={{
+                        left: `${seam.start * 100}%`,
+                        width: `${(seam.end - seam.start) * 100}%`,
+                        // Dashed line on the inner edge, where the neighbour's frame ends
+                        ...(seam.start > 0 ? { borderLeftWidth: 2 } : { borderRightWidth: 2 })
+                      }}
+                    >
+                      <span className="absolute top-1 left-1/2 -translate-x-1/2 px-1 rounded bg-black bg-opacity-60 text-[10px]">
+                        overlaps #{seam.neighbourId + 1}
+                      </span>
+                    </div>
+                  ))}
+                </ZoomableImage>
+              </CarouselItem>
+            ))}
+          </CarouselContent>
+          <CarouselPrevious className="left-2 text-black" />
+          <CarouselNext className="right-2 text-black" />
+        </Carousel>
+
+        {current && <ImageMetadata image={current} index={selected} total={images.length} />}
+      </DialogContent>
+    </Dialog>
+  );
+};
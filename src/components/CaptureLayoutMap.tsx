@@ -0,0 +1,62 @@
+import React from 'react';
+import { CapturePoint, CaptureRow, SweepOptions } from '../types/camera';
+import { toEquirectangular } from '../utils/cameraUtils';
+import { normalizeAngle } from '../utils/orientation';
+
+interface CaptureLayoutMapProps {
+  points: CapturePoint[];
+  rows: CaptureRow[];
+  currentPointIndex: number;
+  sweep?: SweepOptions;
+}
+
+export const CaptureLayoutMap: React.FC<CaptureLayoutMapProps> = ({
+  points,
+  rows,
+  currentPointIndex,
+  sweep
+}) => {
+  // Partial sweeps are drawn centred on the span instead of split across 0°/360°
+  const headingPoints = points.filter(point => Math.abs(point.pitch) < 90);
+  const centerYaw = sweep && sweep.span < 360 && headingPoints.length > 0
+    ? (Math.min(...headingPoints.map(p => p.yaw)) + Math.max(...headingPoints.map(p => p.yaw))) / 2
+    : 180;
+  const mapX = (point: CapturePoint) => (normalizeAngle(point.yaw - centerYaw + 180) / 360) * 100;
+
+  return (
+    <div className="bg-black bg-opacity-60 rounded-lg p-2 backdrop-blur-sm">
+      <div className="relative w-48 h-24 border border-white border-opacity-40 rounded">
+        {/* Row guides */}
+        {rows.map((row, index) => (
+          <div
+            key={index}
+            className="absolute left-0 right-0 border-t border-dashed border-white opacity-30"
+            style={{ top: `${toEquirectangular(0, row.pitch).y}%` }}
+          />
+        ))}
+
+        {/* Capture targets, poles are drawn mid-map since yaw is meaningless there */}
+        {points.map((point, index) => (
+          <div
+            key={point.id}
+            className={`absolute w-2.5 h-2.5 rounded-full border border-white transition-all duration-300 ${
+              index === currentPointIndex ? 'bg-blue-500 scale-150' :
+              point.captured ? 'bg-green-500' :
+              point.skipped ? 'bg-white bg-opacity-30 border-opacity-30' : 'bg-transparent'
+            }`}
+            style={{
+              left: `${Math.abs(point.pitch) >= 90 ? 50 : mapX(point)}%`,
+              top: `${point.y}%`,
+              transform: 'translate(-50%, -50%)'
+            }}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-white text-[10px] opacity-75 mt-1">
+        <span>{Math.round(centerYaw - 180)}°</span>
+        <span>{Math.round(centerYaw)}°</span>
+        <span>{Math.round(centerYaw + 180)}°</span>
+      </div>
+    </div>
+  );
+};
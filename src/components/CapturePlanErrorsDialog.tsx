@@ -0,0 +1,42 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { CapturePlanFieldError } from '../types/capturePlan';
+
+interface CapturePlanErrorsDialogProps {
+  fileName: string;
+  errors: CapturePlanFieldError[] | null;
+  onClose: () => void;
+}
+
+export const CapturePlanErrorsDialog: React.FC<CapturePlanErrorsDialogProps> = ({
+  fileName,
+  errors,
+  onClose
+}) => {
+  return (
+    <Dialog open={!!errors} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Capture plan not imported</DialogTitle>
+          <DialogDescription>
+            {fileName} has {errors?.length === 1 ? 'a problem' : `${errors?.length ?? 0} problems`}. Fix the fields below and import it again.
+          </DialogDescription>
+        </DialogHeader>
+        <ul className="space-y-1 text-sm">
+          {errors?.map((error, index) => (
+            <li key={index}>
+              <code className="font-mono text-xs bg-muted rounded px-1">{error.path || '(file)'}</code>
+              {' '}{error.message}
+            </li>
+          ))}
+        </ul>
+      </DialogContent>
+    </Dialog>
+  );
+};
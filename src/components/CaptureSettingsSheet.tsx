@@ -0,0 +1,407 @@
+import React from 'react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle
+} from '@/components/ui/sheet';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { CaptureSettings, HapticStyle, LensProfileId, OverlapRule, QualityRule } from '../types/camera';
+import { LENS_PROFILES } from '../utils/lensProfiles';
+import { isSpeechSupported } from '../utils/audioGuidance';
+import { useSpeechVoices } from '../hooks/useAudioGuidance';
+
+// Radix Select items can't have an empty value
+const DEFAULT_VOICE = 'default';
+
+interface CaptureSettingsSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  settings: CaptureSettings;
+  onSettingsChange: (changes: Partial<CaptureSettings>) => void;
+  onReset: () => void;
+  simulatorEnabled: boolean;
+  onSimulatorChange: (enabled: boolean) => void;
+}
+
+interface SettingSliderProps {
+  label: string;
+  value: number;
+  unit: string;
+  min: number;
+  max: number;
+  step?: number;
+  onChange: (value: number) => void;
+}
+
+const SettingSlider: React.FC<SettingSliderProps> = ({ label, value, unit, min, max, step = 1, onChange }) => (
+  <div className="space-y-2">
+    <div className="flex justify-between text-sm">
+      <Label>{label}</Label>
+      <span className="text-muted-foreground">{value}{unit}</span>
+    </div>
+    <Slider
+      value={[value]}
+      min={min}
+      max={max}
+      step={step}
+      onValueChange={([next]) => onChange(next)}
+    />
+  </div>
+);
+
+export const CaptureSettingsSheet: React.FC<CaptureSettingsSheetProps> = ({
+  open,
+  onOpenChange,
+  settings,
+  onSettingsChange,
+  onReset,
+  simulatorEnabled,
+  onSimulatorChange
+}) => {
+  const voices = useSpeechVoices();
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Capture settings</SheetTitle>
+          <SheetDescription>
+            Lens, alignment and overlap settings apply to the next session you start; the ghost, audio, vibration and auto-capture apply immediately.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-6 py-6">
+          <section className="space-y-4">
+            <h3 className="text-sm font-semibold">Alignment</h3>
+            <SettingSlider
+              label="Tolerance"
+              value={settings.alignmentTolerance}
+              unit="°"
+              min={1}
+              max={15}
+              onChange={(alignmentTolerance) => onSettingsChange({ alignmentTolerance })}
+            />
+            <div className="flex items-center justify-between">
+              <Label>Require a level horizon</Label>
+              <Switch
+                checked={settings.enforceRoll}
+                onCheckedChange={(enforceRoll) => onSettingsChange({ enforceRoll })}
+              />
+            </div>
+            {settings.enforceRoll && (
+              <SettingSlider
+                label="Roll tolerance"
+                value={settings.rollTolerance}
+                unit="°"
+                min={1}
+                max={10}
+                step={0.5}
+                onChange={(rollTolerance) => onSettingsChange({ rollTolerance })}
+              />
+            )}
+          </section>
+
+          <section className="space-y-4">
+            <h3 className="text-sm font-semibold">Lens & spacing</h3>
+            <div className="space-y-2">
+              <Label>Lens</Label>
+              <Select
+                value={settings.lensProfile}
+                onValueChange={(lensProfile) => onSettingsChange({ lensProfile: lensProfile as LensProfileId })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LENS_PROFILES.map(profile => (
+                    <SelectItem key={profile.id} value={profile.id}>
+                      {profile.label} · {profile.fov.horizontal}°×{profile.fov.vertical}°
+                    </SelectItem>
+                  ))}
+                  <SelectItem value="custom">Custom field of view</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {settings.lensProfile === 'custom' && (
+              <>
+                <SettingSlider
+                  label="Horizontal field of view"
+                  value={settings.customLensFov.horizontal}
+                  unit="°"
+                  min={10}
+                  max={150}
+                  onChange={(horizontal) => onSettingsChange({ customLensFov: { ...settings.customLensFov, horizontal } })}
+                />
+                <SettingSlider
+                  label="Vertical field of view"
+                  value={settings.customLensFov.vertical}
+                  unit="°"
+                  min={10}
+                  max={150}
+                  onChange={(vertical) => onSettingsChange({ customLensFov: { ...settings.customLensFov, vertical } })}
+                />
+              </>
+            )}
+            <SettingSlider
+              label="Target overlap"
+              value={settings.targetOverlap}
+              unit="%"
+              min={10}
+              max={80}
+              step={5}
+              onChange={(targetOverlap) => onSettingsChange({ targetOverlap })}
+            />
+          </section>
+
+          <section className="space-y-4">
+            <h3 className="text-sm font-semibold">Overlap check</h3>
+            <div className="space-y-2">
+              <Label>When overlap is out of range</Label>
+              <Select
+                value={settings.overlapRule}
+                onValueChange={(overlapRule) => onSettingsChange({ overlapRule: overlapRule as OverlapRule })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="off">Don't check</SelectItem>
+                  <SelectItem value="flag">Flag the image</SelectItem>
+                  <SelectItem value="block">Reject and retake</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <SettingSlider
+              label="Minimum overlap"
+              value={settings.minOverlap}
+              unit="%"
+              min={0}
+              max={settings.maxOverlap}
+              step={5}
+              onChange={(minOverlap) => onSettingsChange({ minOverlap })}
+            />
+            <SettingSlider
+              label="Maximum overlap"
+              value={settings.maxOverlap}
+              unit="%"
+              min={settings.minOverlap}
+              max={95}
+              step={5}
+              onChange={(maxOverlap) => onSettingsChange({ maxOverlap })}
+            />
+          </section>
+
+          <section className="space-y-4">
+            <h3 className="text-sm font-semibold">Image quality check</h3>
+            <div className="space-y-2">
+              <Label>When a shot is blurred or badly exposed</Label>
+              <Select
+                value={settings.qualityRule}
+                onValueChange={(qualityRule) => onSettingsChange({ qualityRule: qualityRule as QualityRule })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="off">Don't check</SelectItem>
+                  <SelectItem value="flag">Flag the image</SelectItem>
+                  <SelectItem value="block">Reject and retake</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <SettingSlider
+              label="Minimum sharpness"
+              value={settings.minSharpness}
+              unit=""
+              min={10}
+              max={300}
+              step={10}
+              onChange={(minSharpness) => onSettingsChange({ minSharpness })}
+            />
+            <SettingSlider
+              label="Maximum clipped pixels"
+              value={settings.maxClipping}
+              unit="%"
+              min={2}
+              max={50}
+              onChange={(maxClipping) => onSettingsChange({ maxClipping })}
+            />
+          </section>
+
+          <section className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold">Previous shot ghost</h3>
+              <Switch
+                checked={settings.ghostEnabled}
+                onCheckedChange={(ghostEnabled) => onSettingsChange({ ghostEnabled })}
+              />
+            </div>
+            <SettingSlider
+              label="Opacity"
+              value={settings.ghostOpacity}
+              unit="%"
+              min={10}
+              max={90}
+              step={5}
+              onChange={(ghostOpacity) => onSettingsChange({ ghostOpacity })}
+            />
+            <SettingSlider
+              label="Maximum width"
+              value={settings.ghostWidth}
+              unit="%"
+              min={10}
+              max={60}
+              step={5}
+              onChange={(ghostWidth) => onSettingsChange({ ghostWidth })}
+            />
+          </section>
+
+          <section className="space-y-4">
+            <h3 className="text-sm font-semibold">Audio guidance</h3>
+            <div className="flex items-center justify-between">
+              <Label>Alignment tone and chime</Label>
+              <Switch
+                checked={settings.audioTone}
+                onCheckedChange={(audioTone) => onSettingsChange({ audioTone })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label>Spoken prompts</Label>
+              <Switch
+                checked={settings.spokenPrompts}
+                disabled={!isSpeechSupported()}
+                onCheckedChange={(spokenPrompts) => onSettingsChange({ spokenPrompts })}
+              />
+            </div>
+            <SettingSlider
+              label="Volume"
+              value={settings.audioVolume}
+              unit="%"
+              min={0}
+              max={100}
+              step={5}
+              onChange={(audioVolume) => onSettingsChange({ audioVolume })}
+            />
+            {settings.spokenPrompts && (
+              <>
+                <div className="space-y-2">
+                  <Label>Voice</Label>
+                  <Select
+                    value={settings.speechVoice || DEFAULT_VOICE}
+                    onValueChange={(voice) => onSettingsChange({ speechVoice: voice === DEFAULT_VOICE ? '' : voice })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={DEFAULT_VOICE}>System default</SelectItem>
+                      {voices.map(voice => (
+                        <SelectItem key={voice.voiceURI} value={voice.voiceURI}>
+                          {voice.name} ({voice.lang})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <SettingSlider
+                  label="Speaking rate"
+                  value={settings.speechRate}
+                  unit="×"
+                  min={0.5}
+                  max={2}
+                  step={0.1}
+                  onChange={(speechRate) => onSettingsChange({ speechRate })}
+                />
+              </>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Sounds follow the ringer switch where the browser allows it.
+            </p>
+          </section>
+
+          <section className="space-y-4">
+            <h3 className="text-sm font-semibold">Vibration</h3>
+            <div className="space-y-2">
+              <Label>Patterns</Label>
+              <Select
+                value={settings.hapticStyle}
+                onValueChange={(hapticStyle) => onSettingsChange({ hapticStyle: hapticStyle as HapticStyle })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="off">Off</SelectItem>
+                  <SelectItem value="subtle">Subtle</SelectItem>
+                  <SelectItem value="standard">Standard</SelectItem>
+                  <SelectItem value="strong">Strong</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label>Pulse faster when close</Label>
+              <Switch
+                checked={settings.hapticProximity}
+                disabled={settings.hapticStyle === 'off'}
+                onCheckedChange={(hapticProximity) => onSettingsChange({ hapticProximity })}
+              />
+            </div>
+          </section>
+
+          <section className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold">Auto-capture</h3>
+              <Switch
+                checked={settings.autoCapture}
+                onCheckedChange={(autoCapture) => onSettingsChange({ autoCapture })}
+              />
+            </div>
+            <SettingSlider
+              label="Hold time"
+              value={settings.autoCaptureDwell}
+              unit=" ms"
+              min={300}
+              max={3000}
+              step={100}
+              onChange={(autoCaptureDwell) => onSettingsChange({ autoCaptureDwell })}
+            />
+            <SettingSlider
+              label="Maximum movement"
+              value={settings.autoCaptureMaxSpeed}
+              unit="°/s"
+              min={2}
+              max={30}
+              onChange={(autoCaptureMaxSpeed) => onSettingsChange({ autoCaptureMaxSpeed })}
+            />
+          </section>
+
+          <section className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold">Simulator mode</h3>
+              <Switch checked={simulatorEnabled} onCheckedChange={onSimulatorChange} />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Replaces the motion sensors with a virtual device controlled by keyboard, mouse or sliders, for working on a desktop. Reloads the app.
+            </p>
+          </section>
+
+          <Button variant="outline" className="w-full" onClick={onReset}>
+            Restore defaults
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -1,10 +1,11 @@
 
 import React from 'react';
 import { CapturePoint } from '../types/camera';
+import { describeQualityIssues } from '../utils/imageQuality';
 
 interface CapturedImagePreviewProps {
   images: CapturePoint[];
-  onImageClick: (imageIndex: number) => void;
+  onImageClick: (point: CapturePoint) => void;
 }
 
 export const CapturedImagePreview: React.FC<CapturedImagePreviewProps> = ({
@@ -12,8 +13,10 @@ export const CapturedImagePreview: React.FC<CapturedImagePreviewProps> = ({
   onImageClick
 }) => {
   const capturedImages = images.filter(img => img.captured && img.imageData);
+  // Skipped points stay listed so they can still be shot later
+  const listedImages = images.filter(img => (img.captured && img.imageData) || img.skipped);
 
-  if (capturedImages.length === 0) return null;
+  if (listedImages.length === 0) return null;
 
   return (
     <div className="absolute top-20 right-4 w-20">
@@ -21,17 +24,51 @@ export const CapturedImagePreview: React.FC<CapturedImagePreviewProps> = ({
         Captured: {capturedImages.length}
       </div>
       <div className="space-y-2 max-h-80 overflow-y-auto">
-        {capturedImages.map((image, index) => (
+        {listedImages.map(image => (
           <button
             key={image.id}
-            onClick={() => onImageClick(index)}
-            className="w-full h-16 rounded-lg overflow-hidden border-2 border-white border-opacity-50 hover:border-opacity-100 transition-all duration-200 pointer-events-auto"
+            onClick={() => onImageClick(image)}
+            className={`relative w-full h-16 rounded-lg overflow-hidden border-2 hover:border-opacity-100 transition-all duration-200 pointer-events-auto ${
+              image.overlapFlagged ? 'border-amber-400' : 'border-white border-opacity-50'
+            }`}
           >
-            <img
-              src={image.imageData}
-              alt={`Captured ${index + 1}`}
-              className="w-full h-full object-cover"
-            />
+            {image.skipped ? (
+              <span className="flex items-center justify-center w-full h-full bg-black bg-opacity-60 text-white text-[10px]">
+                Skipped
+              </span>
+            ) : (
+              <img
+                src={image.imageData}
+                alt={`Captured ${image.id + 1}`}
+                className="w-full h-full object-cover"
+              />
+            )}
+            {!!image.retakeCount && (
+              <span
+                className="absolute top-0.5 left-0.5 px-1 rounded bg-black bg-opacity-70 text-white text-[10px] font-bold"
+                title={`Retaken ${image.retakeCount} time${image.retakeCount === 1 ? '' : 's'}`}
+              >
+                ↻{image.retakeCount}
+              </span>
+            )}
+            {image.quality && image.quality.issues.length > 0 && (
+              <span
+                className="absolute top-0.5 right-0.5 w-4 h-4 rounded-full bg-red-500 text-white text-[10px] font-bold leading-4 text-center"
+                title={`Quality: ${describeQualityIssues(image.quality.issues)}`}
+              >
+                !
+              </span>
+            )}
+            {image.measuredOverlap !== undefined && (
+              <span
+                className={`absolute bottom-0 left-0 right-0 text-[10px] font-bold text-center ${
+                  image.overlapFlagged ? 'bg-amber-500 text-black' : 'bg-black bg-opacity-60 text-white'
+                }`}
+                title="Overlap with the previous shot"
+              >
+                {image.measuredOverlap === null ? 'overlap ?' : `${image.measuredOverlap}%`}
+              </span>
+            )}
           </button>
         ))}
       </div>
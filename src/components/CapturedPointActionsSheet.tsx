@@ -0,0 +1,86 @@
+import React from 'react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle
+} from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { CapturePoint } from '../types/camera';
+
+interface CapturedPointActionsSheetProps {
+  point: CapturePoint | null;
+  onOpenChange: (open: boolean) => void;
+  onView: (point: CapturePoint) => void;
+  onRetake: (point: CapturePoint) => void;
+  onDelete: (point: CapturePoint) => void;
+  onSkip: (point: CapturePoint) => void;
+}
+
+const describePoint = (point: CapturePoint): string => {
+  const status = point.skipped ? 'Skipped' : point.captured ? 'Captured' : 'Not captured';
+  const retakes = point.retakeCount ? ` · retaken ${point.retakeCount}×` : '';
+  return `${status}${retakes} · yaw ${Math.round(point.yaw)}°, pitch ${Math.round(point.pitch)}°`;
+};
+
+export const CapturedPointActionsSheet: React.FC<CapturedPointActionsSheetProps> = ({
+  point,
+  onOpenChange,
+  onView,
+  onRetake,
+  onDelete,
+  onSkip
+}) => {
+  const runAction = (action: (target: CapturePoint) => void) => {
+    if (!point) return;
+    action(point);
+    onOpenChange(false);
+  };
+
+  return (
+    <Sheet open={point !== null} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom">
+        {point && (
+          <>
+            <SheetHeader>
+              <SheetTitle>Point {point.id + 1}{point.label ? ` · ${point.label}` : ''}</SheetTitle>
+              <SheetDescription>{describePoint(point)}</SheetDescription>
+            </SheetHeader>
+
+            {point.imageData && (
+              <button className="mt-4 block w-full" onClick={() => runAction(onView)}>
+                <img
+                  src={point.imageData}
+                  alt={`Point ${point.id + 1}`}
+                  className="w-full max-h-48 object-contain rounded-md bg-muted"
+                />
+              </button>
+            )}
+
+            <div className="grid gap-2 pt-4">
+              {point.captured && (
+                <Button variant="secondary" onClick={() => runAction(onView)}>
+                  View full screen
+                </Button>
+              )}
+              <Button onClick={() => runAction(onRetake)}>
+                {point.captured ? 'Retake' : 'Shoot this point now'}
+              </Button>
+              {point.captured && (
+                <Button variant="outline" onClick={() => runAction(onDelete)}>
+                  Delete image
+                </Button>
+              )}
+              {!point.skipped && (
+                <Button variant="outline" onClick={() => runAction(onSkip)}>
+                  Mark as skipped
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
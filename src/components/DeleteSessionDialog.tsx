@@ -0,0 +1,43 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+
+interface DeleteSessionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sessionTitle: string;
+  isDeleting: boolean;
+  onConfirm: () => void;
+}
+
+export const DeleteSessionDialog: React.FC<DeleteSessionDialogProps> = ({
+  open,
+  onOpenChange,
+  sessionTitle,
+  isDeleting,
+  onConfirm
+}) => {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Delete session?</DialogTitle>
+          <DialogDescription>
+            "{sessionTitle}" and all of its images will be removed from this device. Export it first if you want to keep a copy.
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button variant="destructive" onClick={onConfirm} disabled={isDeleting}>Delete</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,15 @@
+import React, { useState } from 'react';
+import { DeviceContext } from '../contexts/DeviceContext';
+import { DeviceProviders } from '../types/devices';
+import { createDeviceProviders, resolveDeviceProviderKinds } from '../utils/deviceProviders';
+
+interface DeviceProviderProps {
+  devices?: DeviceProviders; // Defaults to the implementations picked for this runtime and URL
+  children: React.ReactNode;
+}
+
+export const DeviceProvider: React.FC<DeviceProviderProps> = ({ devices, children }) => {
+  // Chosen once at startup; swapping implementations mid-session would drop live streams
+  const [resolved] = useState(() => devices ?? createDeviceProviders(resolveDeviceProviderKinds()));
+  return <DeviceContext.Provider value={resolved}>{children}</DeviceContext.Provider>;
+};
@@ -1,45 +1,110 @@
-
 import React from 'react';
+import { GuidanceVector } from '../types/camera';
 
 interface GuidanceArrowProps {
-  direction: 'left' | 'right' | 'center';
+  guidance: GuidanceVector | null;
   isVisible: boolean;
 }
 
-export const GuidanceArrow: React.FC<GuidanceArrowProps> = ({ direction, isVisible }) => {
-  if (!isVisible || direction === 'center') return null;
+// Errors at or beyond these draw the largest, most opaque cue
+const FULL_MOVE_ERROR = 45;
+const FULL_ROLL_ERROR = 30;
+
+const emphasis = (error: number, fullError: number) => Math.min(1, Math.abs(error) / fullError);
+
+const describeMove = (yaw: number, pitch: number) => [
+  yaw > 0 ? 'TURN RIGHT' : yaw < 0 ? 'TURN LEFT' : null,
+  pitch > 0 ? 'TILT UP' : pitch < 0 ? 'TILT DOWN' : null
+].filter(Boolean).join(' · ');
+
+/**
+ * Points towards the current target: one arrow for turn and tilt combined,
+ * placed and angled along the remaining correction, and a rotate cue for
+ * roll. Both grow and firm up with the error left to correct.
+ */
+export const GuidanceArrow: React.FC<GuidanceArrowProps> = ({ guidance, isVisible }) => {
+  if (!isVisible || !guidance) return null;
+
+  // Axes already within tolerance drop out, so a single remaining axis gets a straight arrow
+  const { tolerance, rollTolerance } = guidance;
+  const yaw = Math.abs(guidance.yaw) < tolerance ? 0 : guidance.yaw;
+  const pitch = Math.abs(guidance.pitch) < tolerance ? 0 : guidance.pitch;
+  const roll = rollTolerance === null || Math.abs(guidance.roll) < rollTolerance ? 0 : guidance.roll;
+
+  const moveError = Math.hypot(yaw, pitch);
+  const angle = Math.atan2(-pitch, yaw); // Screen angle, 0 = right, positive = clockwise
+  const moveEmphasis = emphasis(moveError, FULL_MOVE_ERROR);
+  const rollEmphasis = emphasis(roll, FULL_ROLL_ERROR);
 
   return (
-    <div className={`absolute top-1/2 ${
-      direction === 'left' ? 'left-8' : 'right-8'
-    } transform -translate-y-1/2 pointer-events-none z-20`}>
-      <div className="flex flex-col items-center space-y-2">
-        <svg 
-          width="64" 
-          height="64" 
-          viewBox="0 0 24 24" 
-          fill="none" 
-          xmlns="http://www.w3.org/2000/svg"
-          className={`text-yellow-400 drop-shadow-lg animate-pulse ${
-            direction === 'left' ? 'rotate-180' : ''
-          }`}
+    <div className="absolute inset-0 pointer-events-none z-20">
+      {moveError > 0 && (
+        <div
+          className="absolute flex flex-col items-center space-y-2"
+          style={{
+            left: `${50 + 36 * Math.cos(angle)}%`,
+            top: `${50 + 28 * Math.sin(angle)}%`,
+            transform: 'translate(-50%, -50%)',
+            opacity: 0.5 + 0.5 * moveEmphasis
+          }}
+        >
+          <svg
+            width="64"
+            height="64"
+            viewBox="0 0 24 24"
+            fill="none"
+            xmlns="http://www.w3.org/2000/svg"
+            className="text-yellow-400 drop-shadow-lg animate-pulse transition-transform duration-150"
+            style={{ transform: `rotate(${angle}rad) scale(${0.6 + 0.8 * moveEmphasis})` }}
+          >
+            <path
+              d="M8.5 5L15.5 12L8.5 19"
+              stroke="currentColor"
+              strokeWidth="4"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              fill="currentColor"
+              fillOpacity="0.3"
+            />
+          </svg>
+          <div className="bg-black bg-opacity-80 rounded-lg px-3 py-1">
+            <div className="text-yellow-400 text-sm font-bold whitespace-nowrap">
+              {describeMove(yaw, pitch)} {Math.round(moveError)}°
+            </div>
+          </div>
+        </div>
+      )}
+
+      {roll !== 0 && (
+        <div
+          className="absolute left-1/2 top-2/3 flex flex-col items-center space-y-2"
+          style={{ transform: 'translate(-50%, -50%)', opacity: 0.5 + 0.5 * rollEmphasis }}
         >
-          <path 
-            d="M8.5 5L15.5 12L8.5 19" 
-            stroke="currentColor" 
-            strokeWidth="4" 
-            strokeLinecap="round" 
-            strokeLinejoin="round"
-            fill="currentColor"
-            fillOpacity="0.3"
-          />
-        </svg>
-        <div className="bg-black bg-opacity-80 rounded-lg px-3 py-1">
-          <div className="text-yellow-400 text-sm font-bold">
-            TILT {direction.toUpperCase()}
+          <svg
+            width="56"
+            height="56"
+            viewBox="0 0 24 24"
+            fill="none"
+            xmlns="http://www.w3.org/2000/svg"
+            className="text-cyan-300 drop-shadow-lg transition-transform duration-150"
+            style={{ transform: `scale(${(roll > 0 ? 1 : -1) * (0.6 + 0.8 * rollEmphasis)}, ${0.6 + 0.8 * rollEmphasis})` }}
+          >
+            <path
+              d="M21 12a9 9 0 1 1-9-9c2.52 0 4.93 1 6.74 2.74L21 8"
+              stroke="currentColor"
+              strokeWidth="3"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            />
+            <path d="M21 3v5h-5" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round" />
+          </svg>
+          <div className="bg-black bg-opacity-80 rounded-lg px-3 py-1">
+            <div className="text-cyan-300 text-sm font-bold whitespace-nowrap">
+              ROTATE {roll > 0 ? 'CLOCKWISE' : 'COUNTER-CLOCKWISE'} {Math.round(Math.abs(roll))}°
+            </div>
           </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,52 @@
+import React from 'react';
+import { frameShiftFraction } from '../utils/overlap';
+
+interface OnionSkinGhostProps {
+  imageSrc: string;
+  yawDelta: number; // Degrees from the previous shot to the current target, positive = current is to the right
+  horizontalFov: number;
+  opacity: number; // 0-1
+  maxWidth: number; // 0-1 share of the screen width
+}
+
+/**
+ * Draws the part of the previous shot that should reappear in the next one,
+ * where it will sit once the camera is on target. The operator turns until
+ * the live scene lines up with the ghost.
+ */
+export const OnionSkinGhost: React.FC<OnionSkinGhostProps> = ({
+  imageSrc,
+  yawDelta,
+  horizontalFov,
+  opacity,
+  maxWidth
+}) => {
+  const shift = frameShiftFraction(yawDelta, horizontalFov);
+  const stripWidth = Math.min(maxWidth, 1 - shift);
+  if (stripWidth <= 0) return null;
+
+  // The previous shot lies on the opposite side of the turn just made
+  const onLeft = yawDelta > 0;
+
+  return (
+    <div
+      className="absolute top-0 bottom-0 overflow-hidden pointer-events-none border-dashed border-white border-opacity-60"
+      style={{
+        width: `${stripWidth * 100}%`,
+        opacity,
+        ...(onLeft ? { left: 0, borderRightWidth: 2 } : { right: 0, borderLeftWidth: 2 })
+      }}
+    >
+      <img
+        src={imageSrc}
+        alt=""
+        className="absolute top-0 h-full max-w-none object-cover"
+        style={{
+          width: `${100 / stripWidth}%`,
+          ...(onLeft ? { left: 0 } : { right: 0 }),
+          transform: `translateX(${(onLeft ? -shift : shift) * 100}%)`
+        }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React from 'react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { CaptureSession } from '../types/camera';
+import { usePanoramaStitcher } from '../hooks/usePanoramaStitcher';
+import { deliverFile } from '../utils/sessionExport';
+
+interface PanoramaDialogProps {
+  session: CaptureSession;
+  horizontalFov: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const STAGE_LABELS = {
+  warping: 'Projecting images',
+  matching: 'Matching neighbours',
+  blending: 'Blending'
+};
+
+export const PanoramaDialog: React.FC<PanoramaDialogProps> = ({
+  session,
+  horizontalFov,
+  open,
+  onOpenChange
+}) => {
+  const { status, stage, progress, result, error, stitch, reset } = usePanoramaStitcher(horizontalFov);
+
+  React.useEffect(() => {
+    if (open && status === 'idle') {
+      stitch(session);
+    }
+  }, [open, status, session, stitch]);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    // Abandon an unfinished job so reopening starts it again
+    if (!nextOpen && status !== 'done') reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleSave = async () => {
+    if (!result) return;
+    try {
+      await deliverFile(result.blob, `${session.id}_panorama.jpg`, 'Panorama');
+    } catch (err) {
+      toast.error(`Failed to save panorama: ${err instanceof Error ? err.message : 'unknown error'}`);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Panorama</DialogTitle>
+          <DialogDescription>
+            Stitched on this device from the captured images.
+          </DialogDescription>
+        </DialogHeader>
+
+        {(status === 'preparing' || status === 'stitching') && (
+          <div className="space-y-2">
+            <Progress value={progress * 100} />
+            <div className="text-sm text-muted-foreground">
+              {status === 'preparing' ? 'Loading images' : stage ? STAGE_LABELS[stage] : 'Starting'}
+              {' '}({Math.round(progress * 100)}%)
+            </div>
+          </div>
+        )}
+
+        {status === 'error' && (
+          <div className="text-sm text-destructive">Stitching failed: {error}</div>
+        )}
+
+        {status === 'done' && result && (
+          <div className="space-y-2">
+            <div className="overflow-x-auto rounded-md border">
+              <img src={result.url} alt="Stitched panorama" className="h-64 max-w-none" />
+            </div>
+            {result.fallbackPairs > 0 && (
+              <div className="text-xs text-muted-foreground">
+                {result.fallbackPairs} image pair(s) had too little matching detail and were placed from orientation data.
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {status === 'error' && (
+            <Button variant="outline" onClick={() => stitch(session)}>Retry</Button>
+          )}
+          <Button onClick={handleSave} disabled={status !== 'done'}>Save panorama</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
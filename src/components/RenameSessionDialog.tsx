@@ -0,0 +1,62 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+interface RenameSessionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  initialName: string;
+  isSaving: boolean;
+  onRename: (name: string) => void;
+}
+
+export const RenameSessionDialog: React.FC<RenameSessionDialogProps> = ({
+  open,
+  onOpenChange,
+  initialName,
+  isSaving,
+  onRename
+}) => {
+  const [name, setName] = React.useState(initialName);
+
+  React.useEffect(() => {
+    if (open) setName(initialName);
+  }, [open, initialName]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onRename(name);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Rename session</DialogTitle>
+            <DialogDescription>Leave empty to go back to the start time.</DialogDescription>
+          </DialogHeader>
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Living room"
+            maxLength={80}
+            autoFocus
+          />
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button type="submit" disabled={isSaving}>Save</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
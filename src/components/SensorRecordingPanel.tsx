@@ -0,0 +1,66 @@
+import React from 'react';
+
+interface SensorRecordingPanelProps {
+  isRecording: boolean;
+  hasSession: boolean; // Recordings must begin before a session so they can recreate it
+  onStartRecording: () => void;
+  onStopRecording: () => void;
+  replayName: string | null; // File being replayed, null when not replaying
+  onLoadReplay: (file: File) => void;
+  onStopReplay: () => void;
+}
+
+const buttonClass = 'flex-1 bg-white bg-opacity-20 hover:bg-opacity-30 text-white px-3 py-1.5 rounded-lg text-xs font-medium transition-colors duration-200 disabled:opacity-40';
+
+/** Debug tools for capturing sensor data to a file and playing it back. */
+export const SensorRecordingPanel: React.FC<SensorRecordingPanelProps> = ({
+  isRecording,
+  hasSession,
+  onStartRecording,
+  onStopRecording,
+  replayName,
+  onLoadReplay,
+  onStopReplay
+}) => {
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        {isRecording ? (
+          <button onClick={onStopRecording} className={`${buttonClass} bg-red-600 bg-opacity-80`}>
+            ● Stop &amp; save recording
+          </button>
+        ) : (
+          <button onClick={onStartRecording} className={buttonClass} disabled={replayName !== null || hasSession}>
+            Record sensors
+          </button>
+        )}
+        {replayName ? (
+          <button onClick={onStopReplay} className={buttonClass}>
+            Stop replay
+          </button>
+        ) : (
+          <button onClick={() => fileInputRef.current?.click()} className={buttonClass} disabled={isRecording}>
+            Load replay
+          </button>
+        )}
+      </div>
+      {replayName && <div className="text-yellow-300">Replaying {replayName}, live sensors paused</div>}
+      {hasSession && !isRecording && !replayName && (
+        <div className="opacity-75">Reset the session to record one from its start</div>
+      )}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onLoadReplay(file);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import React from 'react';
+import { useSessionImageUrls } from '../hooks/useSessionHistory';
+
+interface SessionThumbnailStripProps {
+  sessionId: string;
+  maxThumbnails?: number;
+}
+
+export const SessionThumbnailStrip: React.FC<SessionThumbnailStripProps> = ({
+  sessionId,
+  maxThumbnails = 6
+}) => {
+  const imageUrls = useSessionImageUrls(sessionId);
+  const thumbnails = [...imageUrls.entries()]
+    .sort(([a], [b]) => a - b)
+    .slice(0, maxThumbnails);
+
+  if (thumbnails.length === 0) {
+    return <div className="text-xs text-muted-foreground">No images</div>;
+  }
+
+  return (
+    <div className="flex space-x-1">
+      {thumbnails.map(([pointId, url]) => (
+        <img
+          key={pointId}
+          src={url}
+          alt={`Point ${pointId + 1}`}
+          className="w-10 h-10 rounded object-cover"
+        />
+      ))}
+      {imageUrls.size > thumbnails.length && (
+        <div className="w-10 h-10 rounded bg-muted text-xs flex items-center justify-center text-muted-foreground">
+          +{imageUrls.size - thumbnails.length}
+        </div>
+      )}
+    </div>
+  );
+};
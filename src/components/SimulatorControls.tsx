@@ -0,0 +1,176 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Slider } from '@/components/ui/slider';
+import { SimulatedOrientationProvider, SimulatedSensorNoise } from '../types/devices';
+import { angleDifference, motionFromCameraPose } from '../utils/orientation';
+
+interface SimulatorControlsProps {
+  provider: SimulatedOrientationProvider;
+}
+
+interface VirtualPose {
+  yaw: number; // -180 to 180
+  pitch: number;
+  roll: number;
+}
+
+const MAX_PITCH = 85;
+const MAX_ROLL = 45;
+const KEY_STEP = 1; // Degrees per arrow key press, ten times that with Shift
+const DRAG_DEGREES_PER_PIXEL = 0.25;
+
+const clamp = (value: number, limit: number) => Math.max(-limit, Math.min(limit, value));
+
+const movePose = (pose: VirtualPose, delta: Partial<VirtualPose>): VirtualPose => ({
+  yaw: angleDifference(pose.yaw + (delta.yaw ?? 0), 0),
+  pitch: clamp(pose.pitch + (delta.pitch ?? 0), MAX_PITCH),
+  roll: clamp(pose.roll + (delta.roll ?? 0), MAX_ROLL)
+});
+
+// Keys are left alone while a form control has focus, sliders included
+const isEditingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.getAttribute('role') === 'slider');
+
+interface PoseSliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  unit?: string;
+  onChange: (value: number) => void;
+}
+
+const PoseSlider: React.FC<PoseSliderProps> = ({ label, value, min, max, step = 1, unit = '°', onChange }) => (
+  <div className="space-y-1">
+    <div className="flex justify-between">
+      <span>{label}</span>
+      <span className="font-mono">{value.toFixed(step < 1 ? 1 : 0)}{unit}</span>
+    </div>
+    <Slider value={[value]} min={min} max={max} step={step} onValueChange={([next]) => onChange(next)} />
+  </div>
+);
+
+/**
+ * Drives a simulated orientation sensor from the keyboard (arrows turn and
+ * tilt, Q/E roll, Shift for bigger steps), by dragging the pad, or with the
+ * sliders. The readings go through the normal filter and alignment path.
+ */
+export const SimulatorControls: React.FC<SimulatorControlsProps> = ({ provider }) => {
+  const [pose, setPose] = useState<VirtualPose>({ yaw: 0, pitch: 0, roll: 0 });
+  const [noise, setNoise] = useState<SimulatedSensorNoise>({ jitter: 0, drift: 0 });
+  const [isExpanded, setIsExpanded] = useState(true);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    provider.setOrientation(motionFromCameraPose(pose));
+  }, [provider, pose]);
+
+  useEffect(() => {
+    provider.setNoise(noise);
+  }, [provider, noise]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.metaKey || event.ctrlKey || event.altKey || isEditingTarget(event.target)) return;
+
+      const step = event.shiftKey ? KEY_STEP * 10 : KEY_STEP;
+      const delta: Partial<VirtualPose> | null = {
+        ArrowLeft: { yaw: -step },
+        ArrowRight: { yaw: step },
+        ArrowUp: { pitch: step },
+        ArrowDown: { pitch: -step },
+        q: { roll: -step },
+        e: { roll: step }
+      }[event.key.length === 1 ? event.key.toLowerCase() : event.key] ?? null;
+      if (!delta) return;
+
+      event.preventDefault();
+      setPose(previous => movePose(previous, delta));
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { x: event.clientX, y: event.clientY };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const last = dragRef.current;
+    if (!last) return;
+    dragRef.current = { x: event.clientX, y: event.clientY };
+    // Dragging moves the view like a map: drag left to turn right
+    setPose(previous => movePose(previous, {
+      yaw: (last.x - event.clientX) * DRAG_DEGREES_PER_PIXEL,
+      pitch: (event.clientY - last.y) * DRAG_DEGREES_PER_PIXEL
+    }));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div className="absolute left-4 top-1/2 -translate-y-1/2 w-60 pointer-events-auto bg-black bg-opacity-70 text-white rounded-lg p-3 text-xs space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold">Simulator</span>
+        <button
+          onClick={() => setIsExpanded(expanded => !expanded)}
+          className="bg-white bg-opacity-20 hover:bg-opacity-30 px-2 py-0.5 rounded-lg transition-colors"
+        >
+          {isExpanded ? 'Hide' : 'Show'}
+        </button>
+      </div>
+
+      {isExpanded && (
+        <>
+          <div
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            className="h-20 rounded-lg border border-dashed border-white border-opacity-40 flex items-center justify-center text-center opacity-80 cursor-grab active:cursor-grabbing touch-none select-none"
+          >
+            Drag to look around
+            <br />
+            ← → ↑ ↓ turn and tilt, Q/E roll
+          </div>
+
+          <PoseSlider label="Yaw" value={pose.yaw} min={-180} max={180} onChange={(yaw) => setPose(previous => ({ ...previous, yaw }))} />
+          <PoseSlider label="Pitch" value={pose.pitch} min={-MAX_PITCH} max={MAX_PITCH} onChange={(pitch) => setPose(previous => ({ ...previous, pitch }))} />
+          <PoseSlider label="Roll" value={pose.roll} min={-MAX_ROLL} max={MAX_ROLL} onChange={(roll) => setPose(previous => ({ ...previous, roll }))} />
+
+          <div className="pt-2 border-t border-white border-opacity-20 space-y-3">
+            <PoseSlider
+              label="Sensor jitter"
+              value={noise.jitter}
+              min={0}
+              max={2}
+              step={0.1}
+              onChange={(jitter) => setNoise(previous => ({ ...previous, jitter }))}
+            />
+            <PoseSlider
+              label="Heading drift"
+              value={noise.drift}
+              min={0}
+              max={2}
+              step={0.1}
+              unit="°/s"
+              onChange={(drift) => setNoise(previous => ({ ...previous, drift }))}
+            />
+          </div>
+
+          <button
+            onClick={() => setPose({ yaw: 0, pitch: 0, roll: 0 })}
+            className="w-full bg-white bg-opacity-20 hover:bg-opacity-30 px-3 py-1.5 rounded-lg font-medium transition-colors"
+          >
+            Level and face north
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
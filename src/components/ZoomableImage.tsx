@@ -0,0 +1,88 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+
+interface ZoomableImageProps {
+  src: string;
+  alt: string;
+  active: boolean; // Zoom resets when the image is no longer the one on screen
+  onZoomChange?: (zoomed: boolean) => void;
+  children?: React.ReactNode; // Overlays that should zoom and pan with the image
+}
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 5;
+const DOUBLE_TAP_SCALE = 2.5;
+
+const clampScale = (scale: number) => Math.max(MIN_SCALE, Math.min(MAX_SCALE, scale));
+
+const distance = (a: { x: number; y: number }, b: { x: number; y: number }) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/** Image with pinch, wheel and double-tap zoom, and drag to pan while zoomed. */
+export const ZoomableImage: React.FC<ZoomableImageProps> = ({ src, alt, active, onZoomChange, children }) => {
+  const [scale, setScale] = useState(1);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const pinch = useRef<{ distance: number; scale: number } | null>(null);
+
+  const applyScale = useCallback((next: number) => {
+    const clamped = clampScale(next);
+    setScale(clamped);
+    if (clamped === MIN_SCALE) setOffset({ x: 0, y: 0 });
+  }, []);
+
+  useEffect(() => {
+    onZoomChange?.(scale > MIN_SCALE);
+  }, [scale, onZoomChange]);
+
+  useEffect(() => {
+    if (!active) applyScale(MIN_SCALE);
+  }, [active, applyScale]);
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    pointers.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    if (pointers.current.size === 2) {
+      const [a, b] = [...pointers.current.values()];
+      pinch.current = { distance: distance(a, b), scale };
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const previous = pointers.current.get(event.pointerId);
+    if (!previous) return;
+    const current = { x: event.clientX, y: event.clientY };
+    pointers.current.set(event.pointerId, current);
+
+    if (pinch.current && pointers.current.size === 2) {
+      const [a, b] = [...pointers.current.values()];
+      applyScale(pinch.current.scale * (distance(a, b) / Math.max(1, pinch.current.distance)));
+    } else if (scale > MIN_SCALE) {
+      setOffset(prev => ({ x: prev.x + (current.x - previous.x) / scale, y: prev.y + (current.y - previous.y) / scale }));
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    pointers.current.delete(event.pointerId);
+    if (pointers.current.size < 2) pinch.current = null;
+  };
+
+  return (
+    <div
+      className="w-full h-full flex items-center justify-center overflow-hidden"
+      style={{ touchAction: 'none' }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onDoubleClick={() => applyScale(scale > MIN_SCALE ? MIN_SCALE : DOUBLE_TAP_SCALE)}
+      onWheel={(event) => applyScale(scale * (event.deltaY < 0 ? 1.2 : 1 / 1.2))}
+    >
+      <div
+        className="relative inline-block transition-transform duration-75"
+        style={{ transform: `scale(${scale}) translate(${offset.x}px, ${offset.y}px)` }}
+      >
+        <img src={src} alt={alt} draggable={false} className="block max-w-full max-h-[70dvh] select-none" />
+        {children}
+      </div>
+    </div>
+  );
+};
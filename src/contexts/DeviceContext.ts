@@ -0,0 +1,13 @@
+import { createContext, useContext } from 'react';
+import { DeviceProviders } from '../types/devices';
+
+export const DeviceContext = createContext<DeviceProviders | null>(null);
+
+/** Camera, orientation and haptics implementations chosen at startup. */
+export const useDevices = (): DeviceProviders => {
+  const devices = useContext(DeviceContext);
+  if (!devices) {
+    throw new Error('useDevices must be used within a <DeviceProvider />');
+  }
+  return devices;
+};
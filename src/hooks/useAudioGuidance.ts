@@ -0,0 +1,114 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { CameraAlignment, CaptureSettings, GuidanceVector } from '../types/camera';
+import {
+  GuidanceTonePlayer,
+  SpeechOptions,
+  createGuidanceTonePlayer,
+  getGuidancePrompt,
+  isSpeechSupported,
+  speak
+} from '../utils/audioGuidance';
+import { getAlignmentErrorMagnitude } from '../utils/cameraUtils';
+
+// A new direction is only spoken once it has held this long, so wobbling
+// across a threshold doesn't chatter
+const PROMPT_SETTLE_MS = 400;
+const MIN_PROMPT_GAP_MS = 1500;
+// An unchanged direction is repeated this often until it is followed
+const PROMPT_REPEAT_MS = 4000;
+
+interface AudioGuidanceOptions {
+  settings: CaptureSettings;
+  isActive: boolean; // A session is running and there is a point to aim at
+  alignment: CameraAlignment;
+  guidance: GuidanceVector | null; // Correction left to make, null without a target
+}
+
+/**
+ * Eyes-free guidance: beeps that track the alignment error, a chime on
+ * alignment, and spoken directions. `announce` speaks progress messages
+ * when spoken prompts are on; `unlock` should be called from a tap.
+ */
+export const useAudioGuidance = ({ settings, isActive, alignment, guidance }: AudioGuidanceOptions) => {
+  const { audioTone, spokenPrompts, audioVolume, speechVoice, speechRate } = settings;
+  const volume = audioVolume / 100;
+  const playerRef = useRef<GuidanceTonePlayer | null>(null);
+  const lastSpokenRef = useRef(0);
+  const speechOptionsRef = useRef<SpeechOptions>({ voiceURI: speechVoice, rate: speechRate, volume });
+  speechOptionsRef.current = { voiceURI: speechVoice, rate: speechRate, volume };
+
+  useEffect(() => {
+    if (!audioTone) return;
+    const player = createGuidanceTonePlayer();
+    playerRef.current = player;
+    // Works without a tap if the page has already had one
+    player.resume().catch(() => undefined);
+    return () => {
+      player.dispose();
+      playerRef.current = null;
+    };
+  }, [audioTone]);
+
+  useEffect(() => {
+    playerRef.current?.setVolume(volume);
+  }, [audioTone, volume]);
+
+  const errorMagnitude = getAlignmentErrorMagnitude(alignment);
+  useEffect(() => {
+    playerRef.current?.setError(isActive && !alignment.isAligned ? errorMagnitude : null);
+  }, [audioTone, isActive, alignment.isAligned, errorMagnitude]);
+
+  useEffect(() => {
+    if (isActive && alignment.isAligned) playerRef.current?.chime();
+  }, [isActive, alignment.isAligned]);
+
+  const prompt = isActive && spokenPrompts && guidance && !alignment.isAligned ? getGuidancePrompt(guidance) : null;
+  useEffect(() => {
+    if (!prompt) return;
+
+    let repeatTimer: ReturnType<typeof setInterval> | null = null;
+    const say = () => {
+      speak(prompt, speechOptionsRef.current);
+      lastSpokenRef.current = performance.now();
+    };
+    const sinceLast = performance.now() - lastSpokenRef.current;
+    const firstTimer = setTimeout(() => {
+      say();
+      repeatTimer = setInterval(say, PROMPT_REPEAT_MS);
+    }, Math.max(PROMPT_SETTLE_MS, MIN_PROMPT_GAP_MS - sinceLast));
+
+    return () => {
+      clearTimeout(firstTimer);
+      if (repeatTimer !== null) clearInterval(repeatTimer);
+    };
+  }, [prompt]);
+
+  const announce = useCallback((text: string) => {
+    if (!spokenPrompts) return;
+    speak(text, speechOptionsRef.current);
+    lastSpokenRef.current = performance.now();
+  }, [spokenPrompts]);
+
+  const unlock = useCallback(() => {
+    playerRef.current?.resume().catch(() => undefined);
+  }, []);
+
+  return { announce, unlock };
+};
+
+/** Speech synthesis voices, which some browsers only list after a delay. */
+export const useSpeechVoices = () => {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() =>
+    isSpeechSupported() ? window.speechSynthesis.getVoices() : []
+  );
+
+  useEffect(() => {
+    if (!isSpeechSupported()) return;
+    const updateVoices = () => setVoices(window.speechSynthesis.getVoices());
+    updateVoices();
+    window.speechSynthesis.addEventListener('voiceschanged', updateVoices);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', updateVoices);
+  }, []);
+
+  return voices;
+};
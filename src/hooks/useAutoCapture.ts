@@ -0,0 +1,58 @@
+import { useState, useEffect, useRef } from 'react';
+
+interface AutoCaptureOptions {
+  enabled: boolean;
+  isAligned: boolean;
+  angularSpeed: number; // deg/s
+  maxAngularSpeed: number; // deg/s
+  dwellTime: number; // ms the device must stay aligned and steady
+  isBusy: boolean;
+  onTrigger: () => void;
+}
+
+/**
+ * Fires `onTrigger` once the device has been aligned and steady for the
+ * whole dwell time. Losing alignment or moving too fast restarts the count.
+ * Returns dwell progress from 0 to 1 for display.
+ */
+export const useAutoCapture = ({
+  enabled,
+  isAligned,
+  angularSpeed,
+  maxAngularSpeed,
+  dwellTime,
+  isBusy,
+  onTrigger
+}: AutoCaptureOptions) => {
+  const [progress, setProgress] = useState(0);
+  const onTriggerRef = useRef(onTrigger);
+  onTriggerRef.current = onTrigger;
+
+  const isReady = enabled && isAligned && !isBusy && angularSpeed <= maxAngularSpeed;
+
+  useEffect(() => {
+    if (!isReady) {
+      setProgress(0);
+      return;
+    }
+
+    const startedAt = performance.now();
+    let frameHandle = 0;
+
+    const tick = () => {
+      const elapsed = performance.now() - startedAt;
+      if (elapsed >= dwellTime) {
+        setProgress(0);
+        onTriggerRef.current();
+        return;
+      }
+      setProgress(elapsed / dwellTime);
+      frameHandle = requestAnimationFrame(tick);
+    };
+    frameHandle = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frameHandle);
+  }, [isReady, dwellTime]);
+
+  return { progress, isArmed: isReady };
+};
@@ -0,0 +1,40 @@
+import { useState, useCallback } from 'react';
+import { CALIBRATION_VERSION, OrientationCalibration } from '../types/camera';
+
+const STORAGE_KEY = 'align-shot-guide:orientation-calibration';
+
+const loadCalibration = (): OrientationCalibration | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const calibration: OrientationCalibration | null = stored ? JSON.parse(stored) : null;
+    // Calibrations from an older pose model need redoing rather than showing as current
+    return calibration?.calibrationVersion === CALIBRATION_VERSION ? calibration : null;
+  } catch {
+    return null;
+  }
+};
+
+/** The operator's neutral pose and sensor bias, remembered on this device. */
+export const useCalibration = () => {
+  const [calibration, setCalibration] = useState<OrientationCalibration | null>(loadCalibration);
+
+  const saveCalibration = useCallback((next: OrientationCalibration) => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch (error) {
+      console.log('Unable to store calibration:', error);
+    }
+    setCalibration(next);
+  }, []);
+
+  const clearCalibration = useCallback(() => {
+    try {
+      localStorage.removeItem(STORAGE_KEY);
+    } catch (error) {
+      console.log('Unable to clear calibration:', error);
+    }
+    setCalibration(null);
+  }, []);
+
+  return { calibration, saveCalibration, clearCalibration };
+};
@@ -0,0 +1,60 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useDevices } from '../contexts/DeviceContext';
+import { grabVideoFrame } from '../utils/cameraSource';
+
+export type CameraStreamStatus = 'idle' | 'starting' | 'live' | 'error';
+
+export const useCameraStream = () => {
+  const { camera } = useDevices();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const isRunningRef = useRef(false);
+  const [status, setStatus] = useState<CameraStreamStatus>('idle');
+  const [error, setError] = useState<Error | null>(null);
+
+  const stop = useCallback(() => {
+    camera.stop();
+    isRunningRef.current = false;
+    if (videoRef.current) {
+      videoRef.current.srcObject = null;
+    }
+    setStatus('idle');
+  }, [camera]);
+
+  const start = useCallback(async () => {
+    isRunningRef.current = true;
+    setStatus('starting');
+    setError(null);
+
+    try {
+      const stream = await camera.start();
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play().catch(() => undefined);
+      }
+      setStatus('live');
+    } catch (err) {
+      camera.stop();
+      isRunningRef.current = false;
+      const streamError = err instanceof Error ? err : new Error(String(err));
+      setError(streamError);
+      setStatus('error');
+      throw streamError;
+    }
+  }, [camera]);
+
+  const captureFrame = useCallback(async (quality?: number): Promise<Blob> => {
+    if (!videoRef.current || status !== 'live') {
+      throw new Error('Camera preview is not running');
+    }
+    return grabVideoFrame(videoRef.current, quality);
+  }, [status]);
+
+  useEffect(() => {
+    return () => {
+      if (isRunningRef.current) camera.stop();
+      isRunningRef.current = false;
+    };
+  }, [camera]);
+
+  return { videoRef, status, error, start, stop, captureFrame, sourceKind: camera.kind };
+};
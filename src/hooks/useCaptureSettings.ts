@@ -0,0 +1,71 @@
+import { useState, useCallback } from 'react';
+import { CaptureSettings } from '../types/camera';
+
+const STORAGE_KEY = 'align-shot-guide:capture-settings';
+
+export const DEFAULT_CAPTURE_SETTINGS: CaptureSettings = {
+  alignmentTolerance: 5,
+  enforceRoll: true,
+  rollTolerance: 3,
+  jpegQuality: 0.9,
+  minOverlap: 20,
+  maxOverlap: 60,
+  overlapRule: 'flag',
+  autoCapture: false,
+  autoCaptureDwell: 1200,
+  autoCaptureMaxSpeed: 8,
+  lensProfile: 'phone-main',
+  customLensFov: { horizontal: 60, vertical: 75 },
+  targetOverlap: 30,
+  pointSpacing: 'auto',
+  ghostEnabled: true,
+  ghostOpacity: 40,
+  ghostWidth: 30,
+  qualityRule: 'flag',
+  minSharpness: 60,
+  maxClipping: 20,
+  audioTone: false,
+  spokenPrompts: false,
+  audioVolume: 70,
+  speechVoice: '',
+  speechRate: 1,
+  hapticStyle: 'standard',
+  hapticProximity: true
+};
+
+const loadSettings = (): CaptureSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_CAPTURE_SETTINGS, ...JSON.parse(stored) } : DEFAULT_CAPTURE_SETTINGS;
+  } catch {
+    return DEFAULT_CAPTURE_SETTINGS;
+  }
+};
+
+/** User-tunable capture settings, remembered on this device. */
+export const useCaptureSettings = () => {
+  const [settings, setSettings] = useState<CaptureSettings>(loadSettings);
+
+  const updateSettings = useCallback((changes: Partial<CaptureSettings>) => {
+    setSettings(previous => {
+      const next = { ...previous, ...changes };
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      } catch (error) {
+        console.log('Unable to store capture settings:', error);
+      }
+      return next;
+    });
+  }, []);
+
+  const resetSettings = useCallback(() => {
+    try {
+      localStorage.removeItem(STORAGE_KEY);
+    } catch (error) {
+      console.log('Unable to clear capture settings:', error);
+    }
+    setSettings(DEFAULT_CAPTURE_SETTINGS);
+  }, []);
+
+  return { settings, updateSettings, resetSettings };
+};
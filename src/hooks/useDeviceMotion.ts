@@ -1,46 +1,99 @@
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { useDevices } from '../contexts/DeviceContext';
+import { DeviceMotion as DeviceMotionType, MotionSample } from '../types/camera';
+import { OrientationFilterConfig, createOrientationFilter } from '../utils/orientationFilter';
+import { ReplayPlayer } from '../utils/sensorRecording';
 
-import { useState, useEffect } from 'react';
-import { Motion } from '@capacitor/motion';
-import { DeviceMotion as DeviceMotionType } from '../types/camera';
-
-export const useDeviceMotion = () => {
-  const [motion, setMotion] = useState<DeviceMotionType>({
-    alpha: 0,
-    beta: 0,
-    gamma: 0
-  });
+/**
+ * Filtered device orientation. With a `replay` player the recorded samples
+ * stand in for the live sensors, going through the same filter.
+ */
+export const useDeviceMotion = (filterConfig: Partial<OrientationFilterConfig> = {}, replay: ReplayPlayer | null = null) => {
+  const { orientation } = useDevices();
+  // null until the first real orientation reading arrives
+  const [motion, setMotion] = useState<DeviceMotionType | null>(null);
   const [isSupported, setIsSupported] = useState(false);
 
+  const sampleListenersRef = useRef(new Set<(sample: MotionSample) => void>());
+
+  const { timeConstant, gyroWeight, gravityWeight, maxSampleGap, gyroBias } = filterConfig;
+  const biasAlpha = gyroBias?.alpha ?? 0;
+  const biasBeta = gyroBias?.beta ?? 0;
+  const biasGamma = gyroBias?.gamma ?? 0;
+  const filter = useMemo(
+    () => createOrientationFilter({
+      timeConstant,
+      gyroWeight,
+      gravityWeight,
+      maxSampleGap,
+      gyroBias: { alpha: biasAlpha, beta: biasBeta, gamma: biasGamma }
+    }),
+    [timeConstant, gyroWeight, gravityWeight, maxSampleGap, biasAlpha, biasBeta, biasGamma]
+  );
+
+  /** Raw, unfiltered sensor samples as they arrive. Returns an unsubscribe function. */
+  const addSampleListener = useCallback((listener: (sample: MotionSample) => void) => {
+    const listeners = sampleListenersRef.current;
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }, []);
+
   useEffect(() => {
     let isWatching = false;
+    let frameHandle: number | null = null;
+    let latest: DeviceMotionType | null = null;
+    let stopFeed: (() => void) | null = null;
+
+    // Sensors fire far more often than the screen refreshes, so only publish
+    // the newest estimate once per frame
+    const publish = (sample: MotionSample) => {
+      if (!isWatching) return;
+      sampleListenersRef.current.forEach(listener => listener(sample));
+      latest = filter.push(sample);
+      if (frameHandle === null) {
+        frameHandle = requestAnimationFrame(() => {
+          frameHandle = null;
+          if (isWatching) setMotion(latest);
+        });
+      }
+    };
 
     const startWatching = async () => {
+      isWatching = true;
+      setIsSupported(true);
+
+      if (replay) {
+        stopFeed = replay.addSampleListener(publish);
+        return;
+      }
+
       try {
-        setIsSupported(true);
-        isWatching = true;
-        
-        await Motion.addListener('orientation', (event) => {
-          if (isWatching) {
-            setMotion({
-              alpha: event.alpha || 0,
-              beta: event.beta || 0,
-              gamma: event.gamma || 0
-            });
-          }
-        });
+        const unsubscribe = await orientation.subscribe(publish);
+        // The effect may have been cleaned up while subscribing
+        if (isWatching) {
+          stopFeed = unsubscribe;
+        } else {
+          unsubscribe();
+        }
       } catch (error) {
         console.log('Device motion not supported:', error);
         setIsSupported(false);
       }
     };
 
+    filter.reset();
+    setMotion(null);
     startWatching();
 
     return () => {
       isWatching = false;
-      Motion.removeAllListeners();
+      if (frameHandle !== null) cancelAnimationFrame(frameHandle);
+      stopFeed?.();
+      stopFeed = null;
     };
-  }, []);
+  }, [filter, replay, orientation]);
 
-  return { motion, isSupported };
+  return { motion, isSupported, hasData: motion !== null, addSampleListener };
 };
@@ -1,30 +1,47 @@
+import { useEffect, useRef, useCallback } from 'react';
+import { useDevices } from '../contexts/DeviceContext';
+import { CameraAlignment, CaptureSettings } from '../types/camera';
+import { getAlignmentErrorMagnitude } from '../utils/cameraUtils';
+import { HAPTIC_PATTERNS, HapticEngine, HapticEvent, createHapticEngine } from '../utils/hapticPatterns';
 
-import { Haptics, ImpactStyle } from '@capacitor/haptics';
+interface HapticFeedbackOptions {
+  settings: CaptureSettings;
+  isActive: boolean; // A session is running and there is a point to aim at
+  alignment: CameraAlignment;
+}
 
-export const useHapticFeedback = () => {
-  const triggerSuccess = async () => {
-    try {
-      await Haptics.impact({ style: ImpactStyle.Light });
-    } catch (error) {
-      console.log('Haptics not supported:', error);
-    }
-  };
+/**
+ * Vibration guidance: pulses that quicken near the target, a detent click
+ * on coming into alignment, and `playHaptic` for capture outcomes.
+ */
+export const useHapticFeedback = ({ settings, isActive, alignment }: HapticFeedbackOptions) => {
+  const { haptics } = useDevices();
+  const { hapticStyle, hapticProximity } = settings;
+  const engineRef = useRef<HapticEngine | null>(null);
 
-  const triggerWarning = async () => {
-    try {
-      await Haptics.impact({ style: ImpactStyle.Medium });
-    } catch (error) {
-      console.log('Haptics not supported:', error);
-    }
-  };
+  useEffect(() => {
+    if (hapticStyle === 'off') return;
+    const engine = createHapticEngine(haptics, HAPTIC_PATTERNS[hapticStyle]);
+    engineRef.current = engine;
+    return () => {
+      engine.dispose();
+      engineRef.current = null;
+    };
+  }, [haptics, hapticStyle]);
 
-  const triggerError = async () => {
-    try {
-      await Haptics.impact({ style: ImpactStyle.Heavy });
-    } catch (error) {
-      console.log('Haptics not supported:', error);
-    }
-  };
+  const errorMagnitude = getAlignmentErrorMagnitude(alignment);
+  useEffect(() => {
+    engineRef.current?.setProximity(hapticProximity && isActive && !alignment.isAligned ? errorMagnitude : null);
+  }, [hapticStyle, hapticProximity, isActive, alignment.isAligned, errorMagnitude]);
 
-  return { triggerSuccess, triggerWarning, triggerError };
+  // Only the transition into alignment clicks, not every update while aligned
+  useEffect(() => {
+    if (isActive && alignment.isAligned) engineRef.current?.play('detent');
+  }, [isActive, alignment.isAligned]);
+
+  const playHaptic = useCallback((event: HapticEvent) => {
+    engineRef.current?.play(event);
+  }, []);
+
+  return { playHaptic };
 };
@@ -0,0 +1,137 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { CapturePoint, CaptureSession } from '../types/camera';
+import { StitchRequest, StitchStage, StitchWorkerMessage } from '../types/stitching';
+import { loadRawImage, rawImageToBlob } from '../utils/imageData';
+
+export type StitchStatus = 'idle' | 'preparing' | 'stitching' | 'done' | 'error';
+
+// Working resolution for stitching; keeps memory and CPU time reasonable on phones
+const STITCH_MAX_DIMENSION = 1024;
+
+/**
+ * Shots that form one horizontal strip, left to right. Multi-row sessions
+ * are stitched from their most complete row.
+ */
+const selectStitchStrip = (session: CaptureSession): CapturePoint[] => {
+  const captured = session.points.filter(p => p.captured && p.imageData);
+  const byRow = new Map<number, CapturePoint[]>();
+  captured.forEach(point => {
+    byRow.set(point.row, [...(byRow.get(point.row) ?? []), point]);
+  });
+
+  let strip: CapturePoint[] = [];
+  byRow.forEach(points => {
+    if (points.length > strip.length) strip = points;
+  });
+  return [...strip].sort((a, b) => a.yaw - b.yaw);
+};
+
+export const usePanoramaStitcher = (horizontalFov: number) => {
+  const workerRef = useRef<Worker | null>(null);
+  const jobRef = useRef(0);
+  const [status, setStatus] = useState<StitchStatus>('idle');
+  const [stage, setStage] = useState<StitchStage | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<{ blob: Blob; url: string; seams: number[]; fallbackPairs: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const cancel = useCallback(() => {
+    jobRef.current++;
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  }, []);
+
+  const reset = useCallback(() => {
+    cancel();
+    setResult(previous => {
+      if (previous) URL.revokeObjectURL(previous.url);
+      return null;
+    });
+    setStatus('idle');
+    setStage(null);
+    setProgress(0);
+    setError(null);
+  }, [cancel]);
+
+  const stitch = useCallback(async (session: CaptureSession) => {
+    reset();
+    const job = jobRef.current;
+    const strip = selectStitchStrip(session);
+    if (strip.length < 2) {
+      setError('At least two overlapping images are needed');
+      setStatus('error');
+      return;
+    }
+
+    setStatus('preparing');
+    try {
+      const images = await Promise.all(strip.map(async point => ({
+        image: await loadRawImage(point.imageData, STITCH_MAX_DIMENSION),
+        yaw: point.capturedOrientation?.yaw ?? point.yaw
+      })));
+      if (job !== jobRef.current) return;
+
+      const worker = new Worker(new URL('../workers/stitcher.worker.ts', import.meta.url), { type: 'module' });
+      workerRef.current = worker;
+      setStatus('stitching');
+
+      worker.onmessage = async (event: MessageEvent<StitchWorkerMessage>) => {
+        const message = event.data;
+        if (message.type === 'progress') {
+          setStage(message.stage);
+          setProgress(message.progress);
+          return;
+        }
+
+        worker.terminate();
+        workerRef.current = null;
+        if (message.type === 'error') {
+          setError(message.message);
+          setStatus('error');
+          return;
+        }
+
+        try {
+          const blob = await rawImageToBlob(message.image);
+          if (job !== jobRef.current) return;
+          setResult({
+            blob,
+            url: URL.createObjectURL(blob),
+            seams: message.seams,
+            fallbackPairs: message.fallbackPairs
+          });
+          setProgress(1);
+          setStatus('done');
+        } catch (err) {
+          if (job !== jobRef.current) return;
+          setError(err instanceof Error ? err.message : 'Could not encode the stitched image');
+          setStatus('error');
+        }
+      };
+      worker.onerror = (event) => {
+        worker.terminate();
+        workerRef.current = null;
+        setError(event.message || 'Stitching worker crashed');
+        setStatus('error');
+      };
+
+      const request: StitchRequest = { images, horizontalFov };
+      worker.postMessage(request, images.map(input => input.image.data.buffer));
+    } catch (err) {
+      if (job !== jobRef.current) return;
+      setError(err instanceof Error ? err.message : String(err));
+      setStatus('error');
+    }
+  }, [horizontalFov, reset]);
+
+  useEffect(() => cancel, [cancel]);
+
+  // The stitched image's URL is released with the component, not just when replaced
+  const resultUrlRef = useRef<string | null>(null);
+  resultUrlRef.current = result?.url ?? null;
+  useEffect(() => () => {
+    if (resultUrlRef.current) URL.revokeObjectURL(resultUrlRef.current);
+  }, []);
+
+  return { status, stage, progress, result, error, stitch, cancel, reset };
+};
@@ -0,0 +1,70 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { MotionSample, OrientationCalibration } from '../types/camera';
+import { RecordedAction, SensorRecording } from '../types/recording';
+import {
+  ReplayPlayer,
+  SensorRecorder,
+  createReplayPlayer,
+  createSensorRecorder,
+  parseSensorRecording
+} from '../utils/sensorRecording';
+
+type AddSampleListener = (listener: (sample: MotionSample) => void) => () => void;
+
+/** Records raw sensor samples from `useDeviceMotion` along with session actions. */
+export const useSensorRecorder = (addSampleListener: AddSampleListener) => {
+  const recorderRef = useRef<SensorRecorder | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+
+  useEffect(() => {
+    if (!isRecording) return;
+    return addSampleListener(sample => recorderRef.current?.recordSample(sample));
+  }, [isRecording, addSampleListener]);
+
+  const startRecording = useCallback((calibration: OrientationCalibration | null) => {
+    recorderRef.current = createSensorRecorder(calibration);
+    setIsRecording(true);
+  }, []);
+
+  const stopRecording = useCallback((): SensorRecording | null => {
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    setIsRecording(false);
+    return recorder ? recorder.finish() : null;
+  }, []);
+
+  // No-op unless a recording is running
+  const recordAction = useCallback((action: RecordedAction) => {
+    recorderRef.current?.recordAction(action);
+  }, []);
+
+  return { isRecording, startRecording, stopRecording, recordAction };
+};
+
+/**
+ * Loads a recording and plays it back. While `player` is set it should be
+ * handed to `useDeviceMotion` in place of the live sensors.
+ */
+export const useSensorReplay = () => {
+  const [player, setPlayer] = useState<ReplayPlayer | null>(null);
+  const [replayName, setReplayName] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!player) return;
+    player.start(() => setPlayer(null));
+    return () => player.stop();
+  }, [player]);
+
+  /** Starts replaying the file, or returns why it can't be replayed. */
+  const loadReplay = useCallback(async (file: File): Promise<string | null> => {
+    const result = parseSensorRecording(await file.text());
+    if ('error' in result) return result.error;
+    setReplayName(file.name);
+    setPlayer(createReplayPlayer(result.recording));
+    return null;
+  }, []);
+
+  const stopReplay = useCallback(() => setPlayer(null), []);
+
+  return { player, replayName, loadReplay, stopReplay };
+};
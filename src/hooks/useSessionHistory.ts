@@ -0,0 +1,68 @@
+import { useState, useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { deleteSession, getSession, listSessions, loadSessionImages, renameSession } from '../utils/sessionStore';
+
+const SESSIONS_KEY = ['sessions'] as const;
+
+export const useSessionList = () => {
+  return useQuery({
+    queryKey: SESSIONS_KEY,
+    queryFn: listSessions
+  });
+};
+
+export const useStoredSession = (sessionId: string | undefined) => {
+  return useQuery({
+    queryKey: [...SESSIONS_KEY, sessionId],
+    queryFn: () => getSession(sessionId as string),
+    enabled: !!sessionId
+  });
+};
+
+/**
+ * Object URLs for a stored session's images, keyed by point id. The URLs are
+ * revoked when the component unmounts or the session changes.
+ */
+export const useSessionImageUrls = (sessionId: string | undefined) => {
+  const [urls, setUrls] = useState<Map<number, string>>(new Map());
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    let cancelled = false;
+    let created: string[] = [];
+    loadSessionImages(sessionId)
+      .then(images => {
+        if (cancelled) return;
+        const next = new Map<number, string>();
+        images.forEach((blob, pointId) => next.set(pointId, URL.createObjectURL(blob)));
+        created = [...next.values()];
+        setUrls(next);
+      })
+      .catch(error => console.error('Failed to load session images:', error));
+
+    return () => {
+      cancelled = true;
+      created.forEach(url => URL.revokeObjectURL(url));
+      setUrls(new Map());
+    };
+  }, [sessionId]);
+
+  return urls;
+};
+
+export const useRenameSession = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ sessionId, name }: { sessionId: string; name: string }) => renameSession(sessionId, name),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: SESSIONS_KEY })
+  });
+};
+
+export const useDeleteSession = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (sessionId: string) => deleteSession(sessionId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: SESSIONS_KEY })
+  });
+};
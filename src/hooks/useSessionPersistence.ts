@@ -0,0 +1,57 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CaptureSession } from '../types/camera';
+import {
+  deleteSessionImage,
+  findResumableSession,
+  loadSessionWithImages,
+  saveSession,
+  saveSessionImage
+} from '../utils/sessionStore';
+
+/**
+ * Mirrors the live session into IndexedDB as it changes (replays excepted) and surfaces a
+ * session that was still active when the app was last closed.
+ */
+export const useSessionPersistence = (session: CaptureSession | null) => {
+  const [resumableSession, setResumableSession] = useState<CaptureSession | null>(null);
+
+  useEffect(() => {
+    findResumableSession()
+      .then(setResumableSession)
+      .catch(error => console.log('Session storage unavailable:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!session || session.isReplay) return;
+    saveSession(session).catch(error => console.error('Failed to persist session:', error));
+  }, [session]);
+
+  const persistImage = useCallback((sessionId: string, pointId: number, blob: Blob) => {
+    return saveSessionImage(sessionId, pointId, blob);
+  }, []);
+
+  const removeImage = useCallback((sessionId: string, pointId: number) => {
+    return deleteSessionImage(sessionId, pointId);
+  }, []);
+
+  const resumeSession = useCallback(async (): Promise<CaptureSession | null> => {
+    if (!resumableSession) return null;
+    const restored = await loadSessionWithImages(resumableSession.id);
+    setResumableSession(null);
+    return restored;
+  }, [resumableSession]);
+
+  // Leaves the session in history but stops offering it for resume
+  const archiveSession = useCallback((target: CaptureSession) => {
+    if (!target.isActive || target.isReplay) return Promise.resolve();
+    return saveSession({ ...target, isActive: false, endTime: target.endTime ?? new Date() });
+  }, []);
+
+  const dismissResumableSession = useCallback(async () => {
+    if (!resumableSession) return;
+    setResumableSession(null);
+    await archiveSession(resumableSession);
+  }, [resumableSession, archiveSession]);
+
+  return { resumableSession, resumeSession, dismissResumableSession, archiveSession, persistImage, removeImage };
+};
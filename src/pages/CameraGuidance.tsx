@@ -1,37 +1,150 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { Camera, CameraResultType, CameraSource } from '@capacitor/camera';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { CameraPreview } from '../components/CameraPreview';
 import { CameraOverlay } from '../components/CameraOverlay';
 import { GuidanceArrow } from '../components/GuidanceArrow';
 import { CaptureButton } from '../components/CaptureButton';
 import { CapturedImagePreview } from '../components/CapturedImagePreview';
 import { CameraControls } from '../components/CameraControls';
+import { PanoramaDialog } from '../components/PanoramaDialog';
+import { CaptureSettingsSheet } from '../components/CaptureSettingsSheet';
+import { CapturePlanErrorsDialog } from '../components/CapturePlanErrorsDialog';
+import { CalibrationWizard } from '../components/CalibrationWizard';
+import { CapturedPointActionsSheet } from '../components/CapturedPointActionsSheet';
+import { CaptureImageViewer, ViewerImage } from '../components/CaptureImageViewer';
+import { SensorRecordingPanel } from '../components/SensorRecordingPanel';
+import { OnionSkinGhost } from '../components/OnionSkinGhost';
+import { SimulatorControls } from '../components/SimulatorControls';
 import { useDeviceMotion } from '../hooks/useDeviceMotion';
 import { useHapticFeedback } from '../hooks/useHapticFeedback';
+import { useAudioGuidance } from '../hooks/useAudioGuidance';
+import { useCameraStream } from '../hooks/useCameraStream';
+import { useSessionPersistence } from '../hooks/useSessionPersistence';
+import { useCaptureSettings } from '../hooks/useCaptureSettings';
+import { useAutoCapture } from '../hooks/useAutoCapture';
+import { useCalibration } from '../hooks/useCalibration';
+import { useSensorRecorder, useSensorReplay } from '../hooks/useSensorRecording';
 import { 
-  generateCapturePoints, 
+  buildLayoutPoints,
   calculateAlignment, 
+  findNextPendingIndex,
   generateSessionId,
-  exportCaptureData 
+  isPointPending,
+  getGuidanceVector,
+  getRollTolerance,
+  isRollMeasurable,
+  DEFAULT_HORIZONTAL_FOV
 } from '../utils/cameraUtils';
-import { CapturePoint, CaptureSession } from '../types/camera';
+import { deliverFile, exportSessionBundle } from '../utils/sessionExport';
+import {
+  buildPlanPoints,
+  createPlanFromLayout,
+  getCapturePlanFileName,
+  parseCapturePlan,
+  serializeCapturePlan
+} from '../utils/capturePlan';
+import { findOverlapReference, isOverlapOutOfRange, measureOverlap, yawStepBetween } from '../utils/overlap';
+import { useDevices } from '../contexts/DeviceContext';
+import { saveSimulatorPreference } from '../utils/deviceProviders';
+import { isSimulatedOrientationProvider } from '../utils/orientationProviders';
+import { angleDifference, normalizeAngle } from '../utils/orientation';
+import { describeCalibration, getCalibratedPose } from '../utils/calibration';
+import { analyzeImageQuality, describeQualityIssues } from '../utils/imageQuality';
+import { DEFAULT_SWEEP, buildCaptureRows, plannedOverlap } from '../utils/spacing';
+import { getLensLabel, resolveLensFov } from '../utils/lensProfiles';
+import { getSensorRecordingFileName, serializeSensorRecording, toRecordedSessionStart } from '../utils/sensorRecording';
+import { CapturePoint, CaptureSession, CaptureLayoutId, CaptureSpacing, SweepOptions } from '../types/camera';
+import { CapturePlan, CapturePlanFieldError } from '../types/capturePlan';
+import { RecordedSessionStart } from '../types/recording';
 import { toast } from 'sonner';
+import { useNavigate } from 'react-router-dom';
+import { flushSync } from 'react-dom';
+
+// How a finished shot landed in the session, for the feedback that follows it
+interface CaptureOutcome {
+  index: number;
+  isRetake: boolean;
+  replacedImage?: string;
+  nextIndex: number;
+  isComplete: boolean;
+}
 
 export const CameraGuidance: React.FC = () => {
+  const navigate = useNavigate();
   const [session, setSession] = useState<CaptureSession | null>(null);
-  const [guidanceDirection, setGuidanceDirection] = useState<'left' | 'right' | 'center'>('center');
   const [isCapturing, setIsCapturing] = useState(false);
   const [totalPoints, setTotalPoints] = useState(7);
+  const [layout, setLayout] = useState<CaptureLayoutId>('single-row');
+  const [sweep, setSweep] = useState<SweepOptions>(DEFAULT_SWEEP);
   const [debugInfo, setDebugInfo] = useState<string>('App loaded');
   const [permissionsGranted, setPermissionsGranted] = useState(false);
   const [permissionsRequested, setPermissionsRequested] = useState(false);
   const [showPermissionPrompt, setShowPermissionPrompt] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [showPanorama, setShowPanorama] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showCalibration, setShowCalibration] = useState(false);
+  const [selectedPointId, setSelectedPointId] = useState<number | null>(null);
+  const [viewerPointId, setViewerPointId] = useState<number | null>(null);
+  const [capturePlan, setCapturePlan] = useState<CapturePlan | null>(null);
+  const [planImportErrors, setPlanImportErrors] = useState<{ fileName: string; errors: CapturePlanFieldError[] } | null>(null);
   
-  const { motion, isSupported: motionSupported } = useDeviceMotion();
-  const { triggerSuccess, triggerWarning, triggerError } = useHapticFeedback();
+  const { calibration: storedCalibration, saveCalibration, clearCalibration } = useCalibration();
+  const { player: replayPlayer, replayName, loadReplay, stopReplay } = useSensorReplay();
+  // A replay runs with the calibration it was recorded with
+  const calibration = replayPlayer ? replayPlayer.recording.calibration : storedCalibration;
+  const { motion, isSupported: motionSupported, addSampleListener } = useDeviceMotion({
+    gyroBias: calibration?.gyroBias ?? undefined
+  }, replayPlayer);
+  const { isRecording, startRecording, stopRecording, recordAction } = useSensorRecorder(addSampleListener);
+  const { orientation: orientationProvider } = useDevices();
+  const cameraStream = useCameraStream();
+  const cameraSourceKind = cameraStream.sourceKind;
+  const { settings, updateSettings, resetSettings } = useCaptureSettings();
+  const {
+    resumableSession,
+    resumeSession,
+    dismissResumableSession,
+    archiveSession,
+    persistImage,
+    removeImage
+  } = useSessionPersistence(session);
+
+  const lens = resolveLensFov(settings);
+  const spacing = useMemo<CaptureSpacing>(() => ({
+    lens,
+    overlap: settings.targetOverlap,
+    horizonPoints: settings.pointSpacing === 'manual' ? totalPoints : null
+  }), [lens, settings.targetOverlap, settings.pointSpacing, totalPoints]);
+  const plannedRows = useMemo(
+    () => layout === 'plan' && capturePlan ? buildPlanPoints(capturePlan).rows : buildCaptureRows(layout, spacing, sweep),
+    [layout, capturePlan, spacing, sweep]
+  );
 
   const currentPoint = session?.points[session.currentPointIndex];
-  const alignment = currentPoint ? calculateAlignment(currentPoint, motion) : { isAligned: false, horizontalOffset: 0, verticalOffset: 0, rotation: 0 };
+  const cameraPose = motion ? getCalibratedPose(motion, calibration) : null;
+  const ghostReference = useMemo(
+    () => session && currentPoint && settings.ghostEnabled ? findOverlapReference(session.points, currentPoint) : undefined,
+    [session, currentPoint, settings.ghostEnabled]
+  );
+  const viewerImages = useMemo<ViewerImage[]>(
+    () => (session?.points ?? [])
+      .filter(point => point.captured && point.imageData)
+      .map(point => ({ point, src: point.imageData as string })),
+    [session?.points]
+  );
+  const viewerIndex = viewerImages.findIndex(image => image.point.id === viewerPointId);
+  const rollTolerance = currentPoint ? getRollTolerance(currentPoint, session.captureSettings) : null;
+  const alignment = currentPoint && motion
+    ? calculateAlignment(currentPoint, motion, session.captureSettings.alignmentTolerance, session.referenceHeading, calibration, rollTolerance)
+    : { isAligned: false, yawError: 0, pitchError: 0, rollError: 0, isRollAligned: true, roll: 0 };
+  const guidance = currentPoint && motion
+    ? getGuidanceVector(alignment, currentPoint.tolerance ?? session.captureSettings.alignmentTolerance, rollTolerance)
+    : null;
+  // Guidance follows the live settings so sound and vibration can be changed mid-session
+  const isGuiding = !!session?.isActive && !!currentPoint && !!motion;
+  const { announce, unlock: unlockAudio } = useAudioGuidance({ settings, isActive: isGuiding, alignment, guidance });
+  const { playHaptic } = useHapticFeedback({ settings, isActive: isGuiding, alignment });
 
   // Enhanced debug logging with motion data
   useEffect(() => {
@@ -39,57 +152,54 @@ export const CameraGuidance: React.FC = () => {
     console.log('Motion supported:', motionSupported);
     console.log('Current motion:', motion);
     console.log('Alignment:', alignment);
-    console.log('Guidance direction:', guidanceDirection);
     
-    const motionString = `α:${motion.alpha.toFixed(1)} β:${motion.beta.toFixed(1)} γ:${motion.gamma.toFixed(1)}`;
-    const alignmentString = `H:${alignment.horizontalOffset.toFixed(1)} V:${alignment.verticalOffset.toFixed(1)}`;
-    setDebugInfo(`Motion: ${motionSupported ? 'OK' : 'NO'} | ${motionString} | ${alignmentString} | Dir: ${guidanceDirection}`);
-  }, [motionSupported, motion, alignment, guidanceDirection]);
+    const motionString = motion
+      ? `α:${motion.alpha.toFixed(1)} β:${motion.beta.toFixed(1)} γ:${motion.gamma.toFixed(1)}`
+      : 'waiting for sensor data';
+    const alignmentString = `Y:${alignment.yawError.toFixed(1)} P:${alignment.pitchError.toFixed(1)} R:${alignment.rollError.toFixed(1)}`;
+    setDebugInfo(`Motion: ${motionSupported ? 'OK' : 'NO'} | ${motionString} | ${alignmentString}`);
+  }, [motionSupported, motion, alignment]);
 
-  // Function to trigger actual camera access (which requests permissions)
-  const requestCameraPermissions = async () => {
+  // Start the live preview, which is also what prompts for camera permissions
+  const requestCameraPermissions = useCallback(async () => {
     try {
-      console.log('Attempting to trigger camera access to request permissions...');
+      console.log(`Starting ${cameraStream.sourceKind} camera preview to request permissions...`);
       setPermissionsRequested(true);
-      setDebugInfo(prev => prev + ' | Requesting via camera access');
-      
-      // Try to access the camera - this will trigger Android permission dialog
-      const image = await Camera.getPhoto({
-        quality: 50,
-        allowEditing: false,
-        resultType: CameraResultType.DataUrl,
-        source: CameraSource.Camera,
-        saveToGallery: false,
-      });
-      
-      // If we got here, permissions were granted
-      console.log('Camera access successful - permissions granted!');
+      setDebugInfo(prev => prev + ' | Starting camera preview');
+
+      // iOS Safari only asks for motion access from a tap, so ask alongside the camera
+      const motionGranted = await orientationProvider.requestPermission?.();
+      if (motionGranted === false) {
+        toast.warning('Motion access denied. Alignment guidance needs the orientation sensors.');
+      }
+
+      await cameraStream.start();
+
+      console.log('Camera preview started - permissions granted!');
       setPermissionsGranted(true);
       setShowPermissionPrompt(false);
-      setDebugInfo(prev => prev + ' | Camera permissions granted via access');
+      setDebugInfo(prev => prev + ' | Camera preview live');
       toast.success('Camera permissions granted! You can now start capturing.');
-      
+
     } catch (error) {
-      console.error('Camera access failed:', error);
+      console.error('Camera preview failed:', error);
       setPermissionsGranted(false);
-      setDebugInfo(prev => prev + ' | Camera access failed');
-      
-      if (error && typeof error === 'object' && 'message' in error) {
-        const message = (error as any).message;
-        if (message.includes('User cancelled') || message.includes('denied')) {
+      setPermissionsRequested(false);
+      setDebugInfo(prev => prev + ' | Camera preview failed');
+
+      if (error instanceof Error) {
+        if (error.name === 'NotAllowedError' || error.message.includes('denied')) {
           toast.error('Camera permission denied. Please enable it in your device settings.');
-        } else if (message.includes('Not implemented on web')) {
-          toast.info('Running in web mode - camera features limited');
-          setPermissionsGranted(true);
-          setShowPermissionPrompt(false);
+        } else if (error.name === 'NotFoundError') {
+          toast.error('No camera found. Add ?camera=simulated to the URL to use a simulated feed.');
         } else {
-          toast.error(`Camera error: ${message}`);
+          toast.error(`Camera error: ${error.message}`);
         }
       } else {
         toast.error('Failed to access camera. Please check permissions in device settings.');
       }
     }
-  };
+  }, [cameraStream, orientationProvider]);
 
   const startSession = useCallback(() => {
     if (!permissionsGranted) {
@@ -98,25 +208,59 @@ export const CameraGuidance: React.FC = () => {
       return;
     }
     
-    console.log('Starting session with', totalPoints, 'points');
-    const points = generateCapturePoints(totalPoints);
+    if (resumableSession) {
+      dismissResumableSession().catch(error => console.error('Failed to archive previous session:', error));
+    }
+
+    const plan = layout === 'plan' ? capturePlan : null;
+    const { rows, points } = plan ? buildPlanPoints(plan) : buildLayoutPoints(layout, spacing, sweep);
+    console.log('Starting', plan ? `plan "${plan.name}"` : layout, 'session with', points.length, 'points');
     const newSession: CaptureSession = {
       id: generateSessionId(),
+      layout,
+      rows,
       points,
-      totalPoints,
+      totalPoints: points.length,
       currentPointIndex: 0,
-      overlapPercentage: 30,
+      referenceHeading: cameraPose?.yaw ?? 0,
+      overlapPercentage: plan?.overlapPercentage ?? plannedOverlap(spacing, sweep),
+      sweep: plan ? undefined : sweep,
+      horizontalFov: plan?.horizontalFov ?? spacing.lens.horizontal,
+      verticalFov: plan?.verticalFov ?? spacing.lens.vertical,
+      planName: plan?.name,
+      captureSettings: settings,
+      cameraSource: cameraSourceKind,
       isActive: true,
       startTime: new Date()
     };
     
     setSession(newSession);
-    setDebugInfo(`Session started with ${totalPoints} points`);
+    recordAction({ type: 'session-start', session: toRecordedSessionStart(newSession) });
+    setDebugInfo(`Session started with ${points.length} points in ${rows.length} row(s)`);
     toast.success('Capture session started! Align with the first point.');
-  }, [totalPoints, permissionsGranted]);
+    unlockAudio();
+    announce(`Session started. Point 1 of ${points.length}.`);
+  }, [spacing, sweep, layout, capturePlan, permissionsGranted, requestCameraPermissions, cameraPose?.yaw, cameraSourceKind, settings, resumableSession, dismissResumableSession, recordAction, unlockAudio, announce]);
+
+  // Recreates a recorded session as it was when recording started, returning its id
+  const startReplaySession = useCallback((recorded: RecordedSessionStart) => {
+    const id = generateSessionId();
+    setSession({
+      ...recorded,
+      id,
+      currentPointIndex: 0,
+      cameraSource: cameraSourceKind,
+      isReplay: true,
+      isActive: true,
+      startTime: new Date()
+    });
+    setDebugInfo(`Replay session started with ${recorded.totalPoints} points`);
+    return id;
+  }, [cameraSourceKind]);
 
   const stopSession = useCallback(() => {
     if (session) {
+      recordAction({ type: 'stop' });
       const updatedSession = {
         ...session,
         isActive: false,
@@ -127,18 +271,52 @@ export const CameraGuidance: React.FC = () => {
       const capturedCount = session.points.filter(p => p.captured).length;
       toast.success(`Session completed! Captured ${capturedCount}/${session.totalPoints} images.`);
     }
-  }, [session]);
+  }, [session, recordAction]);
 
   const resetSession = useCallback(() => {
+    recordAction({ type: 'reset' });
+    if (session) {
+      archiveSession(session).catch(error => console.error('Failed to archive session:', error));
+      session.points.forEach(point => {
+        if (point.imageData?.startsWith('blob:')) URL.revokeObjectURL(point.imageData);
+      });
+    }
     setSession(null);
-    setGuidanceDirection('center');
     setIsCapturing(false);
     toast.info('Session reset. Ready to start new capture.');
-  }, []);
+  }, [session, archiveSession, recordAction]);
+
+  const handleResumeSession = useCallback(async () => {
+    unlockAudio();
+    try {
+      const restored = await resumeSession();
+      if (!restored) return;
+
+      // Web headings are relative to page load, so re-anchor the plan on the
+      // direction the user is facing, treating it as the last captured shot
+      const lastCaptured = [...restored.points].reverse().find(p => p.captured);
+      const referenceHeading = cameraPose && lastCaptured
+        ? normalizeAngle(cameraPose.yaw - lastCaptured.yaw)
+        : restored.referenceHeading;
+
+      setSession({ ...restored, referenceHeading });
+      const capturedCount = restored.points.filter(p => p.captured).length;
+      setDebugInfo(`Resumed session at point ${restored.currentPointIndex + 1}`);
+      toast.success(
+        lastCaptured
+          ? `Resumed with ${capturedCount}/${restored.totalPoints} captured. Aim where you took the last shot before resuming.`
+          : 'Session resumed. Align with the first point.'
+      );
+    } catch (error) {
+      console.error('Failed to resume session:', error);
+      toast.error('Could not restore the previous session.');
+    }
+  }, [resumeSession, cameraPose, unlockAudio]);
 
   const handleCapture = useCallback(async () => {
+    recordAction({ type: 'capture' });
     if (!session || !currentPoint || !alignment.isAligned || isCapturing) {
-      triggerWarning();
+      playHaptic('warning');
       return;
     }
 
@@ -151,90 +329,404 @@ export const CameraGuidance: React.FC = () => {
     setIsCapturing(true);
     
     try {
-      console.log('Attempting to capture image...');
-      const image = await Camera.getPhoto({
-        quality: 90,
-        allowEditing: false,
-        resultType: CameraResultType.DataUrl,
-        source: CameraSource.Camera,
-        saveToGallery: true,
-      });
-
+      console.log('Grabbing frame from camera preview...');
+      const { captureSettings } = session;
+      const blob = await cameraStream.captureFrame(captureSettings.jpegQuality);
+      const imageData = URL.createObjectURL(blob);
       console.log('Image captured successfully');
-      const updatedPoints = [...session.points];
-      updatedPoints[session.currentPointIndex] = {
-        ...currentPoint,
-        captured: true,
-        imageData: image.dataUrl
-      };
 
-      const newCurrentIndex = session.currentPointIndex + 1;
-      const isComplete = newCurrentIndex >= session.totalPoints;
+      const qualityCheck = captureSettings.qualityRule !== 'off'
+        ? analyzeImageQuality(imageData, captureSettings).catch(error => {
+          console.error('Quality analysis failed:', error);
+          return undefined;
+        })
+        : Promise.resolve(undefined);
 
-      setSession({
-        ...session,
-        points: updatedPoints,
-        currentPointIndex: isComplete ? session.currentPointIndex : newCurrentIndex,
-        isActive: !isComplete,
-        endTime: isComplete ? new Date() : undefined
-      });
+      // Compare with the previous shot in this row to verify real overlap
+      let measuredOverlap: number | null | undefined;
+      const overlapReference = captureSettings.overlapRule !== 'off'
+        ? findOverlapReference(session.points, currentPoint)
+        : undefined;
+      if (overlapReference) {
+        measuredOverlap = await measureOverlap(
+          overlapReference.imageData,
+          imageData,
+          yawStepBetween(overlapReference, currentPoint),
+          session.horizontalFov ?? DEFAULT_HORIZONTAL_FOV
+        ).catch(error => {
+          console.error('Overlap measurement failed:', error);
+          return null;
+        });
+      }
+      const overlapFlagged = isOverlapOutOfRange(measuredOverlap, captureSettings);
+      const quality = await qualityCheck;
+      const qualityIssues = quality?.issues ?? [];
+
+      if (overlapFlagged && captureSettings.overlapRule === 'block') {
+        URL.revokeObjectURL(imageData);
+        playHaptic('rejected');
+        toast.error(
+          `Overlap ${measuredOverlap}% is outside ${captureSettings.minOverlap}–${captureSettings.maxOverlap}%. Retake this point.`
+        );
+        return;
+      }
+
+      if (qualityIssues.length > 0 && captureSettings.qualityRule === 'block') {
+        URL.revokeObjectURL(imageData);
+        playHaptic('rejected');
+        toast.error(`Image is ${describeQualityIssues(qualityIssues)}. Hold steady and retake this point.`);
+        return;
+      }
+
+      const capturedOrientation = cameraPose ? {
+        // Unwrapped next to the target so partial sweeps keep negative yaws
+        yaw: currentPoint.yaw - angleDifference(currentPoint.yaw, normalizeAngle(cameraPose.yaw - session.referenceHeading)),
+        pitch: cameraPose.pitch,
+        roll: cameraPose.roll
+      } : undefined;
+
+      // Points may have been deleted, skipped or retaken while the shot was
+      // being checked, so it is applied to the latest session rather than the
+      // one the shutter was pressed in. Flushed so the outcome is known here.
+      let outcome = null as CaptureOutcome | null;
+      flushSync(() => setSession(prev => {
+        outcome = null;
+        const index = prev?.id === session.id ? prev.points.findIndex(p => p.id === currentPoint.id) : -1;
+        const point = prev?.points[index];
+        if (!prev || !point || point.skipped) return prev;
+
+        const isRetake = point.captured;
+        const updatedPoints = [...prev.points];
+        updatedPoints[index] = {
+          ...point,
+          captured: true,
+          skipped: undefined,
+          retakeCount: isRetake ? (point.retakeCount ?? 0) + 1 : point.retakeCount,
+          imageData,
+          capturedAt: new Date(),
+          capturedOrientation,
+          measuredOverlap,
+          overlapFlagged,
+          quality
+        };
 
-      triggerSuccess();
+        // The sequence only moves on if it is still waiting on this point
+        if (!prev.isActive || prev.currentPointIndex !== index) {
+          outcome = { index, isRetake, replacedImage: point.imageData, nextIndex: prev.currentPointIndex, isComplete: false };
+          return { ...prev, points: updatedPoints };
+        }
+
+        // After a retake, pick up where the operator left off
+        const returnIndex = prev.retakeReturnIndex;
+        const nextIndex = returnIndex !== undefined && isPointPending(updatedPoints[returnIndex])
+          ? returnIndex
+          : findNextPendingIndex(updatedPoints, index);
+        const isComplete = nextIndex === -1;
+        outcome = { index, isRetake, replacedImage: point.imageData, nextIndex, isComplete };
+
+        return {
+          ...prev,
+          points: updatedPoints,
+          currentPointIndex: isComplete ? index : nextIndex,
+          retakeReturnIndex: undefined,
+          isActive: !isComplete,
+          endTime: isComplete ? new Date() : undefined
+        };
+      }));
+
+      if (!outcome) {
+        URL.revokeObjectURL(imageData);
+        return;
+      }
+      const { index, isRetake, replacedImage, nextIndex, isComplete } = outcome;
+
+      // A retake replaces the point's earlier image
+      if (replacedImage?.startsWith('blob:')) URL.revokeObjectURL(replacedImage);
+
+      if (!session.isReplay) {
+        persistImage(session.id, currentPoint.id, blob).catch(error => {
+          console.error('Failed to persist image:', error);
+          toast.warning('Image captured but could not be saved for resume.');
+        });
+      }
+
+      playHaptic(isComplete ? 'complete' : overlapFlagged || qualityIssues.length > 0 ? 'warning' : 'capture');
+      announce(isComplete
+        ? `All ${session.totalPoints} points captured.`
+        : `Point ${index + 1} of ${session.totalPoints} captured.`);
       
-      if (isComplete) {
+      if (overlapFlagged) {
+        toast.warning(
+          `Image ${index + 1} overlaps the previous shot by ${measuredOverlap}% (target ${captureSettings.minOverlap}–${captureSettings.maxOverlap}%).`
+        );
+      } else if (qualityIssues.length > 0) {
+        toast.warning(`Image ${index + 1} looks ${describeQualityIssues(qualityIssues)}. Consider retaking it.`);
+      } else if (isComplete) {
         toast.success('All images captured! Session complete.');
+      } else if (isRetake) {
+        toast.success(`Image ${index + 1} retaken! Continue with point ${nextIndex + 1}.`);
       } else {
-        toast.success(`Image ${session.currentPointIndex + 1} captured and saved to gallery! Move to next point.`);
+        toast.success(`Image ${index + 1} captured! Move to next point.`);
       }
     } catch (error) {
-      triggerError();
+      playHaptic('rejected');
       console.error('Camera capture error:', error);
       if (error && typeof error === 'object' && 'message' in error) {
-        toast.error(`Failed to capture image: ${(error as any).message}`);
+        toast.error(`Failed to capture image: ${(error as Error).message}`);
       } else {
         toast.error('Failed to capture image. Please try again.');
       }
     } finally {
       setIsCapturing(false);
     }
-  }, [session, currentPoint, alignment.isAligned, isCapturing, permissionsGranted, triggerSuccess, triggerWarning, triggerError]);
+  }, [session, currentPoint, alignment.isAligned, cameraPose, isCapturing, permissionsGranted, requestCameraPermissions, cameraStream, persistImage, playHaptic, recordAction, announce]);
 
-  const handleGuidanceUpdate = useCallback((direction: 'left' | 'right' | 'center') => {
-    setGuidanceDirection(direction);
-    console.log('Guidance direction updated:', direction);
-  }, []);
+  // Auto-capture follows the live setting so it can be toggled mid-session
+  const autoCapture = useAutoCapture({
+    // Captures in a replay come from the recording, including automatic ones
+    enabled: settings.autoCapture && !!session?.isActive && permissionsGranted && !replayPlayer,
+    isAligned: alignment.isAligned,
+    angularSpeed: motion?.angularSpeed ?? Infinity,
+    maxAngularSpeed: settings.autoCaptureMaxSpeed,
+    dwellTime: settings.autoCaptureDwell,
+    isBusy: isCapturing,
+    onTrigger: handleCapture
+  });
 
-  const handleImageClick = useCallback((imageIndex: number) => {
-    toast.info(`Viewing captured image ${imageIndex + 1}`);
+  const handleImageClick = useCallback((point: CapturePoint) => {
+    setSelectedPointId(point.id);
   }, []);
 
-  const handleExportData = useCallback(() => {
-    if (session) {
-      const exportData = exportCaptureData(session);
-      console.log('Export data:', exportData);
-      toast.success('Capture data exported to console');
+  const handleRetakePoint = useCallback((point: CapturePoint) => {
+    if (!session) return;
+    const index = session.points.findIndex(p => p.id === point.id);
+    if (index === -1) return;
+    recordAction({ type: 'retake', pointId: point.id });
+
+    // Remember where the sequence was; a second retake keeps the original spot
+    const returnIndex = session.isActive && index !== session.currentPointIndex
+      ? session.retakeReturnIndex ?? session.currentPointIndex
+      : session.retakeReturnIndex;
+    setSession({
+      ...session,
+      currentPointIndex: index,
+      retakeReturnIndex: returnIndex,
+      isActive: true,
+      endTime: undefined
+    });
+    toast.info(`Align with point ${index + 1} to retake it.`);
+  }, [session, recordAction]);
+
+  // Clears a point's image, then either queues it to be shot again or skips it
+  const discardPoint = useCallback((point: CapturePoint, skip: boolean) => {
+    if (!session) return;
+    const index = session.points.findIndex(p => p.id === point.id);
+    if (index === -1) return;
+    recordAction({ type: skip ? 'skip' : 'delete', pointId: point.id });
+
+    if (point.imageData?.startsWith('blob:')) URL.revokeObjectURL(point.imageData);
+    if (point.captured && !session.isReplay) {
+      removeImage(session.id, point.id).catch(error => console.error('Failed to remove stored image:', error));
     }
-  }, [session]);
 
-  // Enhanced haptic feedback for alignment changes
+    const updatedPoints = [...session.points];
+    updatedPoints[index] = {
+      ...point,
+      captured: false,
+      skipped: skip || undefined,
+      imageData: undefined,
+      capturedAt: undefined,
+      capturedOrientation: undefined,
+      measuredOverlap: undefined,
+      overlapFlagged: undefined,
+      quality: undefined
+    };
+
+    // Skipping the point being aimed at moves the sequence on
+    if (skip && session.isActive && index === session.currentPointIndex) {
+      const returnIndex = session.retakeReturnIndex;
+      const nextIndex = returnIndex !== undefined && isPointPending(updatedPoints[returnIndex])
+        ? returnIndex
+        : findNextPendingIndex(updatedPoints, index);
+      const isComplete = nextIndex === -1;
+      setSession({
+        ...session,
+        points: updatedPoints,
+        currentPointIndex: isComplete ? index : nextIndex,
+        retakeReturnIndex: undefined,
+        isActive: !isComplete,
+        endTime: isComplete ? new Date() : undefined
+      });
+    } else {
+      setSession({ ...session, points: updatedPoints });
+    }
+
+    if (skip) {
+      toast.info(`Point ${index + 1} skipped.`);
+    } else {
+      toast.info(session.isActive
+        ? `Image ${index + 1} deleted. It will be shot again before the session ends.`
+        : `Image ${index + 1} deleted.`);
+    }
+  }, [session, removeImage, recordAction]);
+
+  const handleDeletePoint = useCallback((point: CapturePoint) => discardPoint(point, false), [discardPoint]);
+  const handleSkipPoint = useCallback((point: CapturePoint) => discardPoint(point, true), [discardPoint]);
+
+  const handleStopRecording = useCallback(async () => {
+    const recording = stopRecording();
+    if (!recording) return;
+    try {
+      const blob = new Blob([serializeSensorRecording(recording)], { type: 'application/json' });
+      await deliverFile(blob, getSensorRecordingFileName(recording), 'Sensor recording');
+      toast.success(`Saved ${recording.samples.length} sensor samples and ${recording.actions.length} actions.`);
+    } catch (error) {
+      toast.error(`Failed to save recording: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  }, [stopRecording]);
+
+  const handleLoadReplay = useCallback(async (file: File) => {
+    const error = await loadReplay(file);
+    if (error) {
+      toast.error(`Can't replay ${file.name}: ${error}`);
+      return;
+    }
+    toast.info(`Replaying ${file.name}`);
+  }, [loadReplay]);
+
+  // Replayed actions go through the same handlers as the operator's taps.
+  // Several can arrive in one tick, so each is rendered before the next and
+  // the listener always reaches the handlers of the latest render.
+  const replayTargetsRef = useRef({
+    session, startReplaySession, handleCapture, handleRetakePoint, handleDeletePoint, handleSkipPoint, stopSession, resetSession
+  });
+  replayTargetsRef.current = {
+    session, startReplaySession, handleCapture, handleRetakePoint, handleDeletePoint, handleSkipPoint, stopSession, resetSession
+  };
+
   useEffect(() => {
-    if (session?.isActive && currentPoint) {
-      if (alignment.isAligned) {
-        triggerSuccess();
+    if (!replayPlayer) return;
+    // Actions recorded before the replay's own session exists would land on
+    // whatever session is open, so they wait for it
+    let replaySessionId: string | null = null;
+    return replayPlayer.addActionListener(action => flushSync(() => {
+      const targets = replayTargetsRef.current;
+      if (action.type !== 'session-start' && (!replaySessionId || targets.session?.id !== replaySessionId)) return;
+      const point = 'pointId' in action ? targets.session?.points.find(p => p.id === action.pointId) : undefined;
+      switch (action.type) {
+        case 'session-start':
+          replaySessionId = targets.startReplaySession(action.session);
+          break;
+        case 'capture':
+          targets.handleCapture();
+          break;
+        case 'retake':
+          if (point) targets.handleRetakePoint(point);
+          break;
+        case 'delete':
+          if (point) targets.handleDeletePoint(point);
+          break;
+        case 'skip':
+          if (point) targets.handleSkipPoint(point);
+          break;
+        case 'stop':
+          targets.stopSession();
+          break;
+        case 'reset':
+          targets.resetSession();
+          break;
       }
+    }));
+  }, [replayPlayer]);
+
+  const handleImportPlan = useCallback(async (file: File) => {
+    const result = parseCapturePlan(await file.text());
+    if (result.errors) {
+      setPlanImportErrors({ fileName: file.name, errors: result.errors });
+      return;
     }
-  }, [alignment.isAligned, session?.isActive, currentPoint, triggerSuccess]);
+    setCapturePlan(result.plan);
+    setLayout('plan');
+    toast.success(`Loaded plan "${result.plan.name}" with ${result.plan.points.length} points`);
+  }, []);
+
+  const handleExportPlan = useCallback(async () => {
+    const plan = layout === 'plan' && capturePlan
+      ? capturePlan
+      : createPlanFromLayout(layout, spacing, sweep, settings);
+    try {
+      const blob = new Blob([serializeCapturePlan(plan)], { type: 'application/json' });
+      await deliverFile(blob, getCapturePlanFileName(plan), 'Capture plan');
+    } catch (error) {
+      toast.error(`Failed to export plan: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  }, [layout, capturePlan, spacing, sweep, settings]);
+
+  const handlePointsChange = useCallback((points: number | 'auto') => {
+    if (points === 'auto') {
+      updateSettings({ pointSpacing: 'auto' });
+      return;
+    }
+    setTotalPoints(points);
+    updateSettings({ pointSpacing: 'manual' });
+  }, [updateSettings]);
+
+  const handleExportData = useCallback(async () => {
+    if (!session || isExporting) return;
+
+    setIsExporting(true);
+    try {
+      await exportSessionBundle(session);
+      toast.success('Session bundle exported');
+    } catch (error) {
+      console.error('Export failed:', error);
+      toast.error(`Export failed: ${error instanceof Error ? error.message : 'unknown error'}`);
+    } finally {
+      setIsExporting(false);
+    }
+  }, [session, isExporting]);
+
+  // Devices are picked once at startup, so switching needs a fresh load
+  const handleSimulatorChange = useCallback((enabled: boolean) => {
+    saveSimulatorPreference(enabled);
+    const url = new URL(window.location.href);
+    url.searchParams.delete('simulator');
+    window.location.replace(url.toString());
+  }, []);
 
   return (
     <div className="relative w-full h-screen bg-black overflow-hidden">
-      {/* Camera Preview - Enhanced for mobile */}
-      <div className="absolute inset-0 bg-gradient-to-br from-gray-800 via-gray-900 to-black flex flex-col items-center justify-center">
-        <div className="text-white text-center p-4">
-          <div className="text-6xl mb-4">📷</div>
-          <div className="text-xl font-medium mb-2">Camera Guidance App</div>
-          <div className="text-sm opacity-75 mb-4">
-            {motionSupported ? 'Motion detection active' : 'Motion detection unavailable'}
-          </div>
+      {/* Live Camera Preview */}
+      <CameraPreview videoRef={cameraStream.videoRef} status={cameraStream.status} />
+
+      {/* Overlapping edge of the neighbouring shot */}
+      {session?.isActive && currentPoint && ghostReference?.imageData && (
+        <OnionSkinGhost
+          imageSrc={ghostReference.imageData}
+          yawDelta={yawStepBetween(ghostReference, currentPoint)}
+          horizontalFov={session.horizontalFov ?? DEFAULT_HORIZONTAL_FOV}
+          opacity={settings.ghostOpacity / 100}
+          maxWidth={settings.ghostWidth / 100}
+        />
+      )}
+
+      {/* Virtual orientation controls for desktops */}
+      {isSimulatedOrientationProvider(orientationProvider) && !replayPlayer && (
+        <SimulatorControls provider={orientationProvider} />
+      )}
+
+      {/* Status Panels */}
+      <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none">
+        <div className="text-white text-center p-4 pointer-events-auto">
+          {cameraStream.status !== 'live' && (
+            <>
+              <div className="text-6xl mb-4">📷</div>
+              <div className="text-xl font-medium mb-2">Camera Guidance App</div>
+              <div className="text-sm opacity-75 mb-4">
+                {motionSupported ? 'Motion detection active' : 'Motion detection unavailable'}
+              </div>
+            </>
+          )}
           
           {/* Permission Request Card - More prominent */}
           {showPermissionPrompt && !permissionsGranted && (
@@ -252,13 +744,15 @@ export const CameraGuidance: React.FC = () => {
                 {permissionsRequested ? 'Requesting...' : 'Enable Camera Access'}
               </button>
               <div className="text-xs mt-3 opacity-75">
-                You'll see an Android permission dialog after tapping
+                {cameraSourceKind === 'simulated'
+                  ? 'Using a simulated camera feed'
+                  : "You'll see a camera permission dialog after tapping"}
               </div>
             </div>
           )}
 
           {/* Permission status */}
-          {permissionsGranted && (
+          {permissionsGranted && !session && (
             <div className="bg-green-600 bg-opacity-80 rounded-lg p-3 mb-4">
               <div className="text-sm font-medium">
                 ✅ Camera Permissions: Granted
@@ -272,10 +766,21 @@ export const CameraGuidance: React.FC = () => {
             <div>Alignment: {alignment.isAligned ? '✓ ALIGNED' : '✗ NOT ALIGNED'}</div>
             <div>Session: {session ? (session.isActive ? 'Active' : 'Completed') : 'None'}</div>
             <div>Permissions: {permissionsGranted ? 'OK' : 'Missing'}</div>
+            <div>Preview: {cameraSourceKind} ({cameraStream.status})</div>
+            <div>Calibration: {describeCalibration(calibration)}</div>
             <div>Requested: {permissionsRequested ? 'Yes' : 'No'}</div>
+            <SensorRecordingPanel
+              isRecording={isRecording}
+              hasSession={session !== null}
+              onStartRecording={() => startRecording(calibration)}
+              onStopRecording={handleStopRecording}
+              replayName={replayPlayer ? replayName : null}
+              onLoadReplay={handleLoadReplay}
+              onStopReplay={stopReplay}
+            />
             {motionSupported && (
               <div className="text-yellow-300">
-                Tilt device left/right to see arrow movement
+                Turn around to see arrow movement
               </div>
             )}
           </div>
@@ -284,15 +789,50 @@ export const CameraGuidance: React.FC = () => {
           {motionSupported && (
             <div className="bg-blue-600 bg-opacity-80 rounded-lg p-3 mb-4">
               <div className="text-sm font-medium mb-2">Motion Test</div>
-              <div className="flex justify-center space-x-4 text-xs">
-                <div>α: {motion.alpha.toFixed(1)}°</div>
-                <div>β: {motion.beta.toFixed(1)}°</div>
-                <div className={`font-bold ${Math.abs(motion.gamma) > 5 ? 'text-yellow-300' : 'text-white'}`}>
-                  γ: {motion.gamma.toFixed(1)}°
-                </div>
-              </div>
+              {motion ? (
+                <>
+                  <div className="flex justify-center space-x-4 text-xs">
+                    <div>α: {motion.alpha.toFixed(1)}°</div>
+                    <div>β: {motion.beta.toFixed(1)}°</div>
+                    <div>γ: {motion.gamma.toFixed(1)}°</div>
+                  </div>
+                  <div className="flex justify-center space-x-4 text-xs mt-1 font-bold text-yellow-300">
+                    <div>Heading: {cameraPose.yaw.toFixed(0)}°</div>
+                    <div>Pitch: {cameraPose.pitch.toFixed(0)}°</div>
+                    <div>Roll: {cameraPose.roll.toFixed(0)}°</div>
+                    <div>Speed: {motion.angularSpeed.toFixed(0)}°/s</div>
+                  </div>
+                </>
+              ) : (
+                <div className="text-xs">Waiting for first sensor reading…</div>
+              )}
               <div className="text-xs mt-2 opacity-75">
-                Gamma (γ) controls left/right guidance
+                Heading controls left/right guidance, tilt controls up/down
+              </div>
+            </div>
+          )}
+
+          {/* Resume interrupted session */}
+          {!session && resumableSession && (
+            <div className="bg-amber-600 bg-opacity-90 rounded-lg p-4 mb-4">
+              <h2 className="text-lg font-bold mb-2">Unfinished session</h2>
+              <p className="text-sm mb-3">
+                Started {resumableSession.startTime.toLocaleString()} with{' '}
+                {resumableSession.points.filter(p => p.captured).length}/{resumableSession.totalPoints} images captured.
+              </p>
+              <div className="flex space-x-2">
+                <button
+                  onClick={handleResumeSession}
+                  className="flex-1 bg-white text-amber-700 hover:bg-gray-100 px-4 py-2 rounded-lg text-sm font-bold transition-colors"
+                >
+                  Resume
+                </button>
+                <button
+                  onClick={dismissResumableSession}
+                  className="flex-1 bg-black bg-opacity-30 hover:bg-opacity-50 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+                >
+                  Discard
+                </button>
               </div>
             </div>
           )}
@@ -303,7 +843,7 @@ export const CameraGuidance: React.FC = () => {
               <h2 className="text-lg font-bold mb-2">Welcome!</h2>
               <p className="text-sm">
                 Tap "Start Capture" in the top-right corner to begin taking aligned photos.
-                {motionSupported && <span className="block mt-1">Tilt your device to see the guidance arrows!</span>}
+                {motionSupported && <span className="block mt-1">Turn with your device to see the guidance arrows!</span>}
               </p>
             </div>
           )}
@@ -314,15 +854,19 @@ export const CameraGuidance: React.FC = () => {
       {session?.isActive && session.points && (
         <CameraOverlay
           points={session.points}
+          rows={session.rows}
           currentPointIndex={session.currentPointIndex}
+          sweep={session.sweep}
           alignment={alignment}
-          onGuidanceUpdate={handleGuidanceUpdate}
+          tolerance={currentPoint?.tolerance ?? session.captureSettings.alignmentTolerance}
+          rollTolerance={rollTolerance}
+          showHorizon={!!currentPoint && isRollMeasurable(currentPoint)}
         />
       )}
 
       {/* Guidance Arrow */}
       <GuidanceArrow
-        direction={guidanceDirection}
+        guidance={guidance}
         isVisible={session?.isActive || false}
       />
 
@@ -332,6 +876,8 @@ export const CameraGuidance: React.FC = () => {
           isReady={alignment.isAligned && permissionsGranted}
           isCapturing={isCapturing}
           onCapture={handleCapture}
+          autoCaptureEnabled={settings.autoCapture}
+          autoCaptureProgress={autoCapture.progress}
         />
       )}
 
@@ -343,6 +889,22 @@ export const CameraGuidance: React.FC = () => {
         />
       )}
 
+      <CapturedPointActionsSheet
+        point={session?.points.find(p => p.id === selectedPointId) ?? null}
+        onOpenChange={(open) => !open && setSelectedPointId(null)}
+        onView={(point) => setViewerPointId(point.id)}
+        onRetake={handleRetakePoint}
+        onDelete={handleDeletePoint}
+        onSkip={handleSkipPoint}
+      />
+
+      <CaptureImageViewer
+        images={viewerImages}
+        startIndex={viewerIndex === -1 ? null : viewerIndex}
+        horizontalFov={session?.horizontalFov ?? DEFAULT_HORIZONTAL_FOV}
+        onClose={() => setViewerPointId(null)}
+      />
+
       {/* Camera Controls */}
       <CameraControls
         onStartSession={startSession}
@@ -350,20 +912,79 @@ export const CameraGuidance: React.FC = () => {
         onResetSession={resetSession}
         isSessionActive={session?.isActive || false}
         totalPoints={totalPoints}
-        onPointsChange={setTotalPoints}
+        pointSpacing={settings.pointSpacing}
+        onPointsChange={handlePointsChange}
+        rows={plannedRows}
+        spacingSummary={`${getLensLabel(settings)} · ${plannedOverlap(spacing, sweep)}% overlap`}
+        sweep={sweep}
+        onSweepChange={(changes) => setSweep(previous => ({ ...previous, ...changes }))}
+        layout={layout}
+        onLayoutChange={setLayout}
+        plan={capturePlan}
+        onImportPlan={handleImportPlan}
+        onExportPlan={handleExportPlan}
+        onOpenSettings={() => setShowSettings(true)}
+        onOpenHistory={() => navigate('/sessions')}
+        onCalibrate={() => setShowCalibration(true)}
+        autoCapture={settings.autoCapture}
+        onAutoCaptureChange={(autoCapture) => updateSettings({ autoCapture })}
+      />
+
+      <CapturePlanErrorsDialog
+        fileName={planImportErrors?.fileName ?? ''}
+        errors={planImportErrors?.errors ?? null}
+        onClose={() => setPlanImportErrors(null)}
       />
 
-      {/* Export Button */}
+      <CalibrationWizard
+        open={showCalibration}
+        onOpenChange={setShowCalibration}
+        motion={motion}
+        addSampleListener={addSampleListener}
+        calibration={storedCalibration}
+        onSave={saveCalibration}
+        onClear={clearCalibration}
+      />
+
+      <CaptureSettingsSheet
+        open={showSettings}
+        onOpenChange={setShowSettings}
+        settings={settings}
+        onSettingsChange={updateSettings}
+        onReset={resetSettings}
+        simulatorEnabled={isSimulatedOrientationProvider(orientationProvider)}
+        onSimulatorChange={handleSimulatorChange}
+      />
+
+      {/* Export Buttons */}
       {session && !session.isActive && session.points.some(p => p.captured) && (
-        <div className="absolute bottom-4 left-4 pointer-events-auto">
+        <div className="absolute bottom-4 left-4 pointer-events-auto flex space-x-2">
+          {session.points.filter(p => p.captured).length >= 2 && (
+            <button
+              onClick={() => setShowPanorama(true)}
+              className="bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200"
+            >
+              Stitch Panorama
+            </button>
+          )}
           <button
             onClick={handleExportData}
-            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200"
+            disabled={isExporting}
+            className="bg-blue-600 hover:bg-blue-700 disabled:opacity-60 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200"
           >
-            Export Data
+            {isExporting ? 'Exporting...' : 'Export ZIP'}
           </button>
         </div>
       )}
+
+      {session && !session.isActive && (
+        <PanoramaDialog
+          session={session}
+          horizontalFov={session.horizontalFov ?? DEFAULT_HORIZONTAL_FOV}
+          open={showPanorama}
+          onOpenChange={setShowPanorama}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { RenameSessionDialog } from '../components/RenameSessionDialog';
+import { DeleteSessionDialog } from '../components/DeleteSessionDialog';
+import { CaptureImageViewer, ViewerImage } from '../components/CaptureImageViewer';
+import {
+  useDeleteSession,
+  useRenameSession,
+  useSessionImageUrls,
+  useStoredSession
+} from '../hooks/useSessionHistory';
+import { describeQualityIssues } from '../utils/imageQuality';
+import { exportSessionBundle } from '../utils/sessionExport';
+import { CAPTURE_LAYOUTS, DEFAULT_HORIZONTAL_FOV, getSessionTitle } from '../utils/cameraUtils';
+
+const formatAngle = (value: number) => `${value.toFixed(1)}°`;
+
+const SessionDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { data: session, isLoading, error } = useStoredSession(id);
+  const imageUrls = useSessionImageUrls(id);
+  const renameMutation = useRenameSession();
+  const deleteMutation = useDeleteSession();
+  const [showRename, setShowRename] = useState(false);
+  const [showDelete, setShowDelete] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+
+  if (isLoading) {
+    return <div className="min-h-screen bg-background p-4 text-sm text-muted-foreground">Loading session...</div>;
+  }
+
+  if (error || !session) {
+    return (
+      <div className="min-h-screen bg-background p-4 space-y-4">
+        <div className="text-sm text-destructive">
+          {error ? `Could not read session: ${error instanceof Error ? error.message : 'unknown error'}` : 'Session not found.'}
+        </div>
+        <Button variant="outline" asChild>
+          <Link to="/sessions">Back to sessions</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const title = getSessionTitle(session);
+  const capturedPoints = session.points.filter(p => p.captured);
+  const viewerImages: ViewerImage[] = capturedPoints.flatMap(point => {
+    const src = imageUrls.get(point.id);
+    return src ? [{ point, src }] : [];
+  });
+  const openViewer = (pointId: number) => {
+    const index = viewerImages.findIndex(image => image.point.id === pointId);
+    if (index !== -1) setViewerIndex(index);
+  };
+  const layoutLabel = session.planName
+    ? `Plan: ${session.planName}`
+    : CAPTURE_LAYOUTS.find(option => option.id === session.layout)?.label ?? session.layout;
+
+  const handleRename = async (name: string) => {
+    try {
+      await renameMutation.mutateAsync({ sessionId: session.id, name });
+      setShowRename(false);
+    } catch (err) {
+      toast.error(`Failed to rename session: ${err instanceof Error ? err.message : 'unknown error'}`);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await deleteMutation.mutateAsync(session.id);
+      toast.success('Session deleted');
+      navigate('/sessions');
+    } catch (err) {
+      toast.error(`Failed to delete session: ${err instanceof Error ? err.message : 'unknown error'}`);
+    }
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await exportSessionBundle(session);
+      toast.success('Session bundle exported');
+    } catch (err) {
+      console.error('Export failed:', err);
+      toast.error(`Export failed: ${err instanceof Error ? err.message : 'unknown error'}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-5xl mx-auto space-y-4">
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+            <div className="space-y-1.5">
+              <CardTitle>{title}</CardTitle>
+              <CardDescription>
+                {session.startTime.toLocaleString()} · {layoutLabel} · {capturedPoints.length} / {session.totalPoints} points
+                {session.isActive ? ' · in progress' : ''}
+              </CardDescription>
+            </div>
+            <Button variant="outline" asChild>
+              <Link to="/sessions">All sessions</Link>
+            </Button>
+          </CardHeader>
+          <CardContent className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={() => setShowRename(true)}>Rename</Button>
+            <Button
+              variant="outline"
+              onClick={handleExport}
+              disabled={isExporting || capturedPoints.length === 0}
+            >
+              {isExporting ? 'Exporting...' : 'Export ZIP'}
+            </Button>
+            <Button variant="destructive" onClick={() => setShowDelete(true)}>Delete</Button>
+          </CardContent>
+        </Card>
+
+        {capturedPoints.length === 0 ? (
+          <div className="text-sm text-muted-foreground">No images were captured in this session.</div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {capturedPoints.map(point => (
+              <Card key={point.id} className="overflow-hidden">
+                {imageUrls.get(point.id) ? (
+                  <button className="block w-full" onClick={() => openViewer(point.id)}>
+                    <img
+                      src={imageUrls.get(point.id)}
+                      alt={`Point ${point.id + 1}`}
+                      className="w-full aspect-video object-cover"
+                    />
+                  </button>
+                ) : (
+                  <div className="w-full aspect-video bg-muted flex items-center justify-center text-xs text-muted-foreground">
+                    Image not stored
+                  </div>
+                )}
+                <CardContent className="p-3 text-xs space-y-1">
+                  <div className="font-medium text-sm">
+                    Point {point.id + 1}{point.label ? ` · ${point.label}` : ''}
+                  </div>
+                  <div>Target: yaw {formatAngle(point.yaw)}, pitch {formatAngle(point.pitch)}</div>
+                  {point.capturedOrientation && (
+                    <div>
+                      Actual: yaw {formatAngle(point.capturedOrientation.yaw)}, pitch {formatAngle(point.capturedOrientation.pitch)}, roll {formatAngle(point.capturedOrientation.roll)}
+                    </div>
+                  )}
+                  {point.capturedAt && <div>Captured: {point.capturedAt.toLocaleTimeString()}</div>}
+                  {point.measuredOverlap !== undefined && (
+                    <div className={point.overlapFlagged ? 'text-amber-600' : undefined}>
+                      Overlap: {point.measuredOverlap === null ? 'not measured' : `${point.measuredOverlap}%`}
+                    </div>
+                  )}
+                  {point.quality && (
+                    <div className={point.quality.issues.length > 0 ? 'text-red-600' : undefined}>
+                      Sharpness {point.quality.sharpness}, clipped {point.quality.shadowClipping}% / {point.quality.highlightClipping}%
+                      {point.quality.issues.length > 0 && ` · ${describeQualityIssues(point.quality.issues)}`}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <CaptureImageViewer
+        images={viewerImages}
+        startIndex={viewerIndex}
+        horizontalFov={session.horizontalFov ?? DEFAULT_HORIZONTAL_FOV}
+        onClose={() => setViewerIndex(null)}
+      />
+
+      <RenameSessionDialog
+        open={showRename}
+        onOpenChange={setShowRename}
+        initialName={session.name ?? ''}
+        isSaving={renameMutation.isPending}
+        onRename={handleRename}
+      />
+      <DeleteSessionDialog
+        open={showDelete}
+        onOpenChange={setShowDelete}
+        sessionTitle={title}
+        isDeleting={deleteMutation.isPending}
+        onConfirm={handleDelete}
+      />
+    </div>
+  );
+};
+
+export default SessionDetail;
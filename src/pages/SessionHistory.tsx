@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { SessionThumbnailStrip } from '../components/SessionThumbnailStrip';
+import { DeleteSessionDialog } from '../components/DeleteSessionDialog';
+import { useDeleteSession, useSessionList } from '../hooks/useSessionHistory';
+import { getSessionTitle, isPointPending } from '../utils/cameraUtils';
+import { CaptureSession } from '../types/camera';
+
+const SessionHistory = () => {
+  const navigate = useNavigate();
+  const { data: sessions, isLoading, error } = useSessionList();
+  const deleteMutation = useDeleteSession();
+  const [sessionToDelete, setSessionToDelete] = useState<CaptureSession | null>(null);
+
+  const handleDelete = async () => {
+    if (!sessionToDelete) return;
+    try {
+      await deleteMutation.mutateAsync(sessionToDelete.id);
+      toast.success('Session deleted');
+      setSessionToDelete(null);
+    } catch (err) {
+      toast.error(`Failed to delete session: ${err instanceof Error ? err.message : 'unknown error'}`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <Card className="max-w-5xl mx-auto">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Capture sessions</CardTitle>
+            <CardDescription>Sessions stored on this device, newest first.</CardDescription>
+          </div>
+          <Button variant="outline" asChild>
+            <Link to="/">Back to camera</Link>
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading && <div className="text-sm text-muted-foreground">Loading sessions...</div>}
+          {error && (
+            <div className="text-sm text-destructive">
+              Could not read stored sessions: {error instanceof Error ? error.message : 'unknown error'}
+            </div>
+          )}
+          {sessions && sessions.length === 0 && (
+            <div className="text-sm text-muted-foreground">No sessions yet. Captured sessions will appear here.</div>
+          )}
+          {sessions && sessions.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Session</TableHead>
+                  <TableHead>Points</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Images</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sessions.map(session => {
+                  const capturedCount = session.points.filter(p => p.captured).length;
+                  // Skipped points count as done, the same as on the capture screen
+                  const isComplete = !session.points.some(isPointPending);
+                  return (
+                    <TableRow
+                      key={session.id}
+                      className="cursor-pointer"
+                      onClick={() => navigate(`/sessions/${session.id}`)}
+                    >
+                      <TableCell>
+                        <div className="font-medium">{getSessionTitle(session)}</div>
+                        <div className="text-xs text-muted-foreground">{session.startTime.toLocaleString()}</div>
+                      </TableCell>
+                      <TableCell>{capturedCount} / {session.totalPoints}</TableCell>
+                      <TableCell>
+                        {session.isActive ? 'In progress' : isComplete ? 'Complete' : 'Stopped early'}
+                      </TableCell>
+                      <TableCell>
+                        <SessionThumbnailStrip sessionId={session.id} />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setSessionToDelete(session);
+                          }}
+                        >
+                          Delete
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <DeleteSessionDialog
+        open={!!sessionToDelete}
+        onOpenChange={(open) => !open && setSessionToDelete(null)}
+        sessionTitle={sessionToDelete ? getSessionTitle(sessionToDelete) : ''}
+        isDeleting={deleteMutation.isPending}
+        onConfirm={handleDelete}
+      />
+    </div>
+  );
+};
+
+export default SessionHistory;
@@ -1,31 +1,208 @@
 
 export interface CapturePoint {
   id: number;
-  x: number;
-  y: number;
+  x: number; // Equirectangular position, percentage of the 360° yaw range
+  y: number; // Equirectangular position, percentage of the 180° pitch range (0 = zenith)
+  yaw: number; // Target heading in degrees, clockwise from the session's starting direction (negative = to the left)
+  pitch: number; // Target elevation in degrees, -90 (nadir) to +90 (zenith)
+  row: number; // Index into the session's row layout
+  roll?: number; // Target sideways lean in degrees, level when omitted
+  tolerance?: number; // Degrees, overrides the session's alignment tolerance
+  label?: string;
+  instruction?: string;
   captured: boolean;
   imageData?: string;
+  capturedAt?: Date;
+  capturedOrientation?: CaptureOrientation;
+  measuredOverlap?: number | null; // Percent shared with the previous shot in the row, null if it couldn't be measured
+  overlapFlagged?: boolean;
+  quality?: ImageQuality;
+  skipped?: boolean; // Deliberately left out; no longer needed to complete the session
+  retakeCount?: number; // Times an existing image for this point was replaced
+}
+
+export type ImageQualityIssue = 'blurry' | 'underexposed' | 'overexposed';
+
+// Measured when the shot is taken; `issues` reflects the thresholds in force then
+export interface ImageQuality {
+  sharpness: number; // Variance of the Laplacian on a 0-255 luminance scale, higher = sharper
+  shadowClipping: number; // Percent of pixels crushed to black
+  highlightClipping: number; // Percent of pixels blown to white
+  issues: ImageQualityIssue[];
+}
+
+// Where the camera actually pointed when a point was captured, in the same
+// frame as the point's targets
+export interface CaptureOrientation {
+  yaw: number;
+  pitch: number;
+  roll: number; // Degrees clockwise from level as seen on screen; rotate the image back by this to straighten it
 }
 
 export interface CameraAlignment {
   isAligned: boolean;
-  horizontalOffset: number;
-  verticalOffset: number;
-  rotation: number;
+  yawError: number; // Degrees to turn, positive = turn right
+  pitchError: number; // Degrees to tilt, positive = tilt up
+  rollError: number; // Degrees of rotation past the target roll, positive = too far clockwise
+  isRollAligned: boolean; // Always true where roll isn't checked
+  roll: number; // Degrees the camera is rotated clockwise from level
+}
+
+// Correction still needed to reach the current point, for guidance cues
+export interface GuidanceVector {
+  yaw: number; // Degrees to turn, positive = right
+  pitch: number; // Degrees to tilt, positive = up
+  roll: number; // Degrees to rotate, positive = clockwise
+  tolerance: number; // Turn and tilt within this count as done
+  rollTolerance: number | null; // null while roll isn't checked
 }
 
 export interface DeviceMotion {
   alpha: number;
   beta: number;
   gamma: number;
+  timestamp: number; // ms, time of the newest sample folded into this estimate
+  angularSpeed: number; // deg/s, smoothed magnitude of the device's rotation
+}
+
+export interface MotionVector {
+  x: number | null;
+  y: number | null;
+  z: number | null;
+}
+
+export interface RotationRateVector {
+  alpha: number | null;
+  beta: number | null;
+  gamma: number | null;
+}
+
+// Raw sensor readings as they arrive, before filtering. Missing values stay
+// null so they can't be mistaken for genuine 0° readings.
+export type MotionSample =
+  | {
+      type: 'orientation';
+      timestamp: number;
+      alpha: number | null;
+      beta: number | null;
+      gamma: number | null;
+    }
+  | {
+      type: 'motion';
+      timestamp: number;
+      rotationRate: RotationRateVector | null;
+      gravity: MotionVector | null;
+    };
+
+// The operator's neutral pose, recorded while holding the phone as they
+// shoot and aiming at the horizon
+export const CALIBRATION_VERSION = 2;
+
+export interface OrientationCalibration {
+  // Missing on calibrations whose roll offset was a raw gamma reading; stored ones
+  // are dropped on load so they get redone, and in recordings that offset is ignored
+  calibrationVersion?: typeof CALIBRATION_VERSION;
+  pitchOffset: number; // Degrees of camera pitch read while aiming at the horizon
+  rollOffset: number; // Degrees of camera roll read while holding the phone "level"
+  gyroBias: { alpha: number; beta: number; gamma: number } | null; // deg/s read while perfectly still
+  calibratedAt: string; // ISO 8601
+}
+
+export interface CaptureRow {
+  pitch: number;
+  count: number;
+}
+
+export type CaptureLayoutId = 'single-row' | 'three-row' | 'full-sphere' | 'plan';
+
+export type OverlapRule = 'off' | 'flag' | 'block';
+
+export type QualityRule = 'off' | 'flag' | 'block';
+
+// Strength of the vibration patterns, or no vibration at all
+export type HapticStyle = 'off' | 'subtle' | 'standard' | 'strong';
+
+// Field of view of the lens in use, as held while shooting (portrait)
+export interface LensFov {
+  horizontal: number; // Degrees
+  vertical: number; // Degrees
+}
+
+export type LensProfileId = 'phone-main' | 'phone-ultrawide' | 'phone-tele-2x' | 'phone-tele-3x' | 'custom';
+
+// How many shots each row gets: derived from the lens and target overlap,
+// or a fixed count on the horizon row
+export type PointSpacingMode = 'auto' | 'manual';
+
+export type PanoramaSpan = 90 | 180 | 270 | 360;
+
+export type SweepDirection = 'left-to-right' | 'right-to-left';
+
+export type SweepStart = 'edge' | 'center';
+
+// Which part of the circle to shoot and in what order. Yaw 0 is where the
+// operator is aiming when the session starts: the first shot at one end of
+// the span, or the middle shot when starting from the centre.
+export interface SweepOptions {
+  span: PanoramaSpan;
+  direction: SweepDirection;
+  start: SweepStart;
+}
+
+export interface CaptureSpacing {
+  lens: LensFov;
+  overlap: number; // Target percent shared by neighbouring shots
+  horizonPoints: number | null; // Fixed horizon count for manual spacing, null for auto
+}
+
+export interface CaptureSettings {
+  alignmentTolerance: number; // Degrees of yaw/pitch error accepted as aligned
+  enforceRoll: boolean; // Hold capture until the phone is level
+  rollTolerance: number; // Degrees of roll error accepted as level
+  jpegQuality: number; // 0-1
+  minOverlap: number; // Percent of the frame shared with the previous shot in the row
+  maxOverlap: number;
+  overlapRule: OverlapRule;
+  autoCapture: boolean;
+  autoCaptureDwell: number; // ms aligned and steady before the shutter fires
+  autoCaptureMaxSpeed: number; // deg/s of rotation still considered steady
+  lensProfile: LensProfileId;
+  customLensFov: LensFov; // Used when lensProfile is 'custom'
+  targetOverlap: number; // Percent, drives automatic point spacing
+  pointSpacing: PointSpacingMode;
+  ghostEnabled: boolean; // Overlay the overlapping edge of the previous shot on the preview
+  ghostOpacity: number; // Percent
+  ghostWidth: number; // Largest share of the screen width the ghost may cover, percent
+  qualityRule: QualityRule;
+  minSharpness: number; // Laplacian variance below which a shot counts as blurred
+  maxClipping: number; // Percent of pixels clipped at either end before a shot counts as badly exposed
+  audioTone: boolean; // Beeps that quicken and rise in pitch as the shot lines up, then a chime
+  spokenPrompts: boolean; // Speak directions and capture progress
+  audioVolume: number; // Percent
+  speechVoice: string; // voiceURI of the speech synthesis voice, empty for the system default
+  speechRate: number; // 1 is normal speaking speed
+  hapticStyle: HapticStyle;
+  hapticProximity: boolean; // Pulse faster the closer the shot is to lining up
 }
 
 export interface CaptureSession {
   id: string;
+  name?: string; // User-given title; sessions are listed by start time until renamed
+  layout: CaptureLayoutId;
+  rows: CaptureRow[];
   points: CapturePoint[];
   totalPoints: number;
   currentPointIndex: number;
+  retakeReturnIndex?: number; // Point to go back to once the retake in progress is captured
+  referenceHeading: number; // Camera heading when the session started, treated as yaw 0
   overlapPercentage: number;
+  horizontalFov?: number; // Degrees; sessions without one assume DEFAULT_HORIZONTAL_FOV
+  verticalFov?: number; // Degrees
+  planName?: string; // Set when the points came from an imported capture plan
+  sweep?: SweepOptions; // Built-in layouts only; older sessions are full left-to-right circles
+  captureSettings: CaptureSettings;
+  cameraSource: string;
+  isReplay?: boolean; // Recreated from a sensor recording; never persisted
   isActive: boolean;
   startTime: Date;
   endTime?: Date;
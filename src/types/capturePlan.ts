@@ -0,0 +1,34 @@
+export const CAPTURE_PLAN_VERSION = 1;
+
+export interface CapturePlanPoint {
+  yaw: number; // Degrees clockwise from the session's starting direction
+  pitch: number; // Degrees, -90 (nadir) to +90 (zenith)
+  roll?: number; // Degrees of intended sideways lean, 0 when omitted
+  tolerance?: number; // Degrees, overrides the plan/session tolerance for this point
+  label?: string;
+  instruction?: string; // Shown to the operator while aiming at this point
+}
+
+/**
+ * Shareable description of what to shoot, in the order it should be shot.
+ * Stored as JSON; `planVersion` changes whenever a field changes meaning.
+ */
+export interface CapturePlan {
+  planVersion: typeof CAPTURE_PLAN_VERSION;
+  name: string;
+  description?: string;
+  horizontalFov?: number; // Degrees, lens the plan was designed for
+  verticalFov?: number; // Degrees
+  overlapPercentage?: number;
+  alignmentTolerance?: number; // Degrees, default for points without their own
+  points: CapturePlanPoint[];
+}
+
+export interface CapturePlanFieldError {
+  path: string; // e.g. "points[3].pitch", empty for the document as a whole
+  message: string;
+}
+
+export type CapturePlanParseResult =
+  | { plan: CapturePlan; errors?: undefined }
+  | { plan?: undefined; errors: CapturePlanFieldError[] };
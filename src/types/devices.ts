@@ -0,0 +1,58 @@
+import { MotionSample } from './camera';
+
+// Where device access comes from: Capacitor plugins, plain browser APIs, or
+// a software stand-in for desktops, CI and replays
+export type DeviceProviderKind = 'capacitor' | 'web' | 'simulated';
+
+export interface CameraProvider {
+  kind: DeviceProviderKind;
+  start: () => Promise<MediaStream>; // Live preview stream, replacing any previous one
+  stop: () => void;
+}
+
+export interface OrientationProvider {
+  kind: DeviceProviderKind;
+  /** Starts delivering raw samples to `listener`. Resolves to an unsubscribe function. */
+  subscribe: (listener: (sample: MotionSample) => void) => Promise<() => void>;
+  /** Asks for sensor access where the platform requires it (iOS Safari); call from a user gesture. */
+  requestPermission?: () => Promise<boolean>;
+}
+
+// Orientation as reported by DeviceOrientationEvent, in degrees
+export interface DeviceOrientationAngles {
+  alpha: number;
+  beta: number;
+  gamma: number;
+}
+
+// Imperfections added to simulated readings so filtering and steadiness checks get exercised
+export interface SimulatedSensorNoise {
+  jitter: number; // Degrees, standard deviation of the random wobble on each reading
+  drift: number; // Degrees per second the reported heading creeps away from the true one
+}
+
+export interface SimulatedOrientationProvider extends OrientationProvider {
+  kind: 'simulated';
+  getOrientation: () => DeviceOrientationAngles;
+  setOrientation: (orientation: DeviceOrientationAngles) => void;
+  setNoise: (noise: SimulatedSensorNoise) => void;
+}
+
+export type HapticImpact = 'light' | 'medium' | 'heavy';
+
+export interface HapticsProvider {
+  kind: DeviceProviderKind;
+  impact: (style: HapticImpact) => Promise<void>;
+}
+
+export interface DeviceProviders {
+  camera: CameraProvider;
+  orientation: OrientationProvider;
+  haptics: HapticsProvider;
+}
+
+export interface DeviceProviderKinds {
+  camera: DeviceProviderKind;
+  orientation: DeviceProviderKind;
+  haptics: DeviceProviderKind;
+}
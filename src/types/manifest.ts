@@ -0,0 +1,43 @@
+import { CaptureLayoutId, CaptureOrientation, CaptureRow, CaptureSettings, ImageQuality, SweepOptions } from './camera';
+
+export const SESSION_MANIFEST_VERSION = 1;
+
+export interface SessionManifestImage {
+  file: string;
+  pointId: number;
+  row: number;
+  label: string | null;
+  target: {
+    yaw: number;
+    pitch: number;
+    roll: number;
+  };
+  actual: CaptureOrientation | null;
+  capturedAt: string | null; // ISO 8601
+  measuredOverlap: number | null;
+  quality: ImageQuality | null;
+  retakeCount: number;
+}
+
+export interface SessionManifest {
+  manifestVersion: typeof SESSION_MANIFEST_VERSION;
+  sessionId: string;
+  name: string | null;
+  planName: string | null;
+  startTime: string; // ISO 8601
+  endTime: string | null;
+  completionTimeMs: number | null;
+  layout: CaptureLayoutId;
+  rows: CaptureRow[];
+  totalPoints: number;
+  capturedPoints: number;
+  skippedPointIds: number[];
+  overlapPercentage: number;
+  sweep: SweepOptions | null; // null for capture-plan sessions, whose points are laid out by the plan
+  horizontalFov: number;
+  verticalFov: number | null;
+  referenceHeading: number;
+  captureSettings: CaptureSettings;
+  cameraSource: string;
+  images: SessionManifestImage[];
+}
@@ -0,0 +1,49 @@
+import { CaptureSession, MotionSample, OrientationCalibration } from './camera';
+
+export const SENSOR_RECORDING_VERSION = 1;
+
+// Enough of a session to start an identical one on replay
+export type RecordedSessionStart = Pick<
+  CaptureSession,
+  | 'layout'
+  | 'rows'
+  | 'points'
+  | 'totalPoints'
+  | 'referenceHeading'
+  | 'overlapPercentage'
+  | 'sweep'
+  | 'horizontalFov'
+  | 'verticalFov'
+  | 'planName'
+  | 'captureSettings'
+>;
+
+export type RecordedAction =
+  | { type: 'session-start'; session: RecordedSessionStart }
+  | { type: 'capture' }
+  | { type: 'retake'; pointId: number }
+  | { type: 'delete'; pointId: number }
+  | { type: 'skip'; pointId: number }
+  | { type: 'stop' }
+  | { type: 'reset' };
+
+export interface RecordedActionEntry {
+  time: number; // ms since the recording started
+  action: RecordedAction;
+}
+
+/**
+ * Raw sensor samples and the operator's actions during a session, in the
+ * order they happened. Replaying it drives the orientation filter and the
+ * session exactly as the live sensors did. Stored as JSON;
+ * `recordingVersion` changes whenever a field changes meaning.
+ */
+export interface SensorRecording {
+  recordingVersion: typeof SENSOR_RECORDING_VERSION;
+  recordedAt: string; // ISO 8601
+  durationMs: number;
+  device: string; // User agent of the recording device
+  calibration: OrientationCalibration | null; // In force while recording; replay uses it instead of the local one
+  samples: MotionSample[]; // Timestamps in ms since the recording started
+  actions: RecordedActionEntry[];
+}
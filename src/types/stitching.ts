@@ -0,0 +1,49 @@
+// Plain pixel buffer that can be transferred to and from a worker
+export interface RawImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // RGBA
+}
+
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Float32Array; // Luminance 0-1
+}
+
+export interface FeaturePoint {
+  x: number;
+  y: number;
+  score: number;
+  descriptor: Float32Array;
+}
+
+export interface FeatureMatch {
+  a: FeaturePoint;
+  b: FeaturePoint;
+  distance: number;
+}
+
+export interface TranslationEstimate {
+  dx: number; // Offset of image B's origin in image A's coordinates
+  dy: number;
+  inliers: number;
+  matches: number;
+}
+
+export interface StitchInputImage {
+  image: RawImage;
+  yaw: number; // Target or measured yaw, used as a prior for matching
+}
+
+export interface StitchRequest {
+  images: StitchInputImage[];
+  horizontalFov: number; // Degrees across the image width
+}
+
+export type StitchStage = 'warping' | 'matching' | 'blending';
+
+export type StitchWorkerMessage =
+  | { type: 'progress'; stage: StitchStage; progress: number } // progress 0-1 across the whole job
+  | { type: 'result'; image: RawImage; seams: number[]; fallbackPairs: number }
+  | { type: 'error'; message: string };
@@ -0,0 +1,149 @@
+import { GuidanceVector } from '../types/camera';
+
+// Errors beyond this sound the same as being this far off
+const MAX_TONE_ERROR = 45;
+const FAR_FREQUENCY = 330; // Hz
+const NEAR_FREQUENCY = 1320;
+const FAR_PULSE_INTERVAL = 700; // ms from one beep to the next
+const NEAR_PULSE_INTERVAL = 90;
+const BEEP_DURATION = 0.06; // s
+
+export interface GuidanceTonePlayer {
+  /** Degrees off target, beeping faster and higher as it shrinks; null stops the beeps. */
+  setError: (error: number | null) => void;
+  chime: () => void;
+  setVolume: (volume: number) => void; // 0-1
+  /** Browsers start audio suspended until a user gesture, so call this from one. */
+  resume: () => Promise<void>;
+  dispose: () => void;
+}
+
+// Audio Session API, Safari 16.4+
+type AudioSessionNavigator = Navigator & { audioSession?: { type: string } };
+
+const mix = (from: number, to: number, t: number) => from + (to - from) * t;
+
+/** Parking-sensor style beeps plus a chime, generated with Web Audio. */
+export const createGuidanceTonePlayer = (): GuidanceTonePlayer => {
+  let context: AudioContext | null = null;
+  let output: GainNode | null = null;
+  let volume = 1;
+  let error: number | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const getAudio = () => {
+    if (typeof AudioContext === 'undefined') return null;
+    if (!context || !output) {
+      // Ambient sounds are silenced by the ringer switch, like other app sounds
+      const audioSession = (navigator as AudioSessionNavigator).audioSession;
+      if (audioSession) audioSession.type = 'ambient';
+
+      context = new AudioContext();
+      output = context.createGain();
+      output.gain.value = volume;
+      output.connect(context.destination);
+    }
+    return { context, output };
+  };
+
+  const playNote = (frequency: number, delay: number, duration: number, peak: number) => {
+    const audio = getAudio();
+    // Notes queued while suspended or in the background would all play at once later
+    if (!audio || audio.context.state !== 'running' || document.hidden) return;
+
+    const start = audio.context.currentTime + delay;
+    const oscillator = audio.context.createOscillator();
+    const envelope = audio.context.createGain();
+    oscillator.frequency.value = frequency;
+    envelope.gain.setValueAtTime(0, start);
+    envelope.gain.linearRampToValueAtTime(peak, start + 0.01);
+    envelope.gain.exponentialRampToValueAtTime(0.001, start + duration);
+    oscillator.connect(envelope).connect(audio.output);
+    oscillator.start(start);
+    oscillator.stop(start + duration + 0.02);
+  };
+
+  const pulse = () => {
+    timer = null;
+    if (error === null) return;
+    const closeness = 1 - Math.min(error, MAX_TONE_ERROR) / MAX_TONE_ERROR;
+    playNote(mix(FAR_FREQUENCY, NEAR_FREQUENCY, closeness), 0, BEEP_DURATION, 0.3);
+    timer = setTimeout(pulse, mix(FAR_PULSE_INTERVAL, NEAR_PULSE_INTERVAL, closeness));
+  };
+
+  const stopPulsing = () => {
+    if (timer !== null) clearTimeout(timer);
+    timer = null;
+  };
+
+  return {
+    setError: (next) => {
+      error = next === null ? null : Math.abs(next);
+      if (error === null) {
+        stopPulsing();
+      } else if (timer === null) {
+        pulse();
+      }
+    },
+    chime: () => {
+      // Rising fifth, A5 then E6
+      playNote(880, 0, 0.25, 0.5);
+      playNote(1318.5, 0.12, 0.4, 0.5);
+    },
+    setVolume: (next) => {
+      volume = next;
+      if (output) output.gain.value = next;
+    },
+    resume: async () => {
+      const audio = getAudio();
+      if (audio && audio.context.state === 'suspended') await audio.context.resume();
+    },
+    dispose: () => {
+      stopPulsing();
+      error = null;
+      context?.close();
+      context = null;
+      output = null;
+    }
+  };
+};
+
+export interface SpeechOptions {
+  voiceURI: string; // Empty for the system default
+  rate: number;
+  volume: number; // 0-1
+}
+
+export const isSpeechSupported = (): boolean => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+/** Speaks `text`, cutting off whatever was still being said. */
+export const speak = (text: string, options: SpeechOptions) => {
+  if (!isSpeechSupported()) return;
+  const utterance = new SpeechSynthesisUtterance(text);
+  const voice = window.speechSynthesis.getVoices().find(v => v.voiceURI === options.voiceURI);
+  if (voice) utterance.voice = voice;
+  utterance.rate = options.rate;
+  utterance.volume = options.volume;
+  window.speechSynthesis.cancel();
+  window.speechSynthesis.speak(utterance);
+};
+
+/**
+ * Spoken direction for whichever of turn, tilt and roll is furthest off,
+ * ignoring axes already within tolerance, or null once none are left.
+ */
+export const getGuidancePrompt = (guidance: GuidanceVector): string | null => {
+  const { tolerance, rollTolerance } = guidance;
+  const yaw = Math.abs(guidance.yaw) < tolerance ? 0 : guidance.yaw;
+  const pitch = Math.abs(guidance.pitch) < tolerance ? 0 : guidance.pitch;
+  const roll = rollTolerance === null || Math.abs(guidance.roll) < rollTolerance ? 0 : guidance.roll;
+
+  if (yaw === 0 && pitch === 0 && roll === 0) return null;
+  if (Math.abs(roll) > Math.max(Math.abs(yaw), Math.abs(pitch))) {
+    return roll > 0 ? 'rotate clockwise' : 'rotate counter-clockwise';
+  }
+  if (Math.abs(yaw) >= Math.abs(pitch)) {
+    return yaw > 0 ? 'turn right' : 'turn left';
+  }
+  return pitch > 0 ? 'tilt up' : 'tilt down';
+};
@@ -0,0 +1,96 @@
+import { CALIBRATION_VERSION, DeviceMotion, OrientationCalibration, RotationRateVector } from '../types/camera';
+import { getCameraPose } from './orientation';
+
+// How long the operator holds still while the neutral pose is recorded
+export const CALIBRATION_DURATION_MS = 3000;
+// Readings spreading further than this mean the phone moved during recording
+const MAX_POSE_SPREAD = 2;
+// Gyro readings above this are real rotation rather than sensor bias
+const MAX_STILL_RATE = 5;
+const MIN_BIAS_SAMPLES = 20;
+
+export interface CalibratedPose {
+  yaw: number;
+  pitch: number;
+  roll: number;
+}
+
+/** Camera pose with the operator's neutral pitch and roll taken out. */
+export const getCalibratedPose = (
+  motion: DeviceMotion,
+  calibration: OrientationCalibration | null
+): CalibratedPose => {
+  const pose = getCameraPose(motion);
+  return {
+    yaw: pose.yaw,
+    pitch: pose.pitch - (calibration?.pitchOffset ?? 0),
+    roll: pose.roll - (calibration?.calibrationVersion === CALIBRATION_VERSION ? calibration.rollOffset : 0)
+  };
+};
+
+export interface CalibrationRecording {
+  poses: { pitch: number; roll: number }[];
+  rotationRates: RotationRateVector[];
+}
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const spread = (values: number[]) => Math.max(...values) - Math.min(...values);
+
+/**
+ * Turns a few seconds of readings taken while the operator held still into
+ * stored offsets. Fails when the phone moved, since the average would then
+ * not describe any one pose.
+ */
+export const computeCalibration = (
+  recording: CalibrationRecording,
+  measureGyroBias: boolean
+): { calibration: OrientationCalibration } | { error: string } => {
+  const { poses, rotationRates } = recording;
+  if (poses.length < 10) {
+    return { error: 'Not enough orientation readings. Make sure motion sensors are enabled.' };
+  }
+
+  const pitches = poses.map(pose => pose.pitch);
+  const rolls = poses.map(pose => pose.roll);
+  if (spread(pitches) > MAX_POSE_SPREAD || spread(rolls) > MAX_POSE_SPREAD) {
+    return { error: 'The phone moved during calibration. Hold it still and try again.' };
+  }
+
+  let gyroBias: OrientationCalibration['gyroBias'] = null;
+  if (measureGyroBias) {
+    const rates = rotationRates.filter(
+      (rate): rate is { alpha: number; beta: number; gamma: number } =>
+        rate.alpha !== null && rate.beta !== null && rate.gamma !== null
+    );
+    if (rates.length < MIN_BIAS_SAMPLES) {
+      return { error: 'This device did not report enough gyroscope readings to measure its bias.' };
+    }
+    if (rates.some(rate => Math.hypot(rate.alpha, rate.beta, rate.gamma) > MAX_STILL_RATE)) {
+      return { error: 'The phone rotated during calibration. Rest it or hold it still and try again.' };
+    }
+    gyroBias = {
+      alpha: mean(rates.map(rate => rate.alpha)),
+      beta: mean(rates.map(rate => rate.beta)),
+      gamma: mean(rates.map(rate => rate.gamma))
+    };
+  }
+
+  return {
+    calibration: {
+      calibrationVersion: CALIBRATION_VERSION,
+      pitchOffset: mean(pitches),
+      rollOffset: mean(rolls),
+      gyroBias,
+      calibratedAt: new Date().toISOString()
+    }
+  };
+};
+
+export const describeCalibration = (calibration: OrientationCalibration | null): string => {
+  if (!calibration) return 'Not calibrated';
+  const bias = calibration.gyroBias
+    ? `, bias ${Math.hypot(calibration.gyroBias.alpha, calibration.gyroBias.beta, calibration.gyroBias.gamma).toFixed(2)}°/s`
+    : '';
+  return `P ${calibration.pitchOffset.toFixed(1)}° R ${calibration.rollOffset.toFixed(1)}°${bias}`;
+};
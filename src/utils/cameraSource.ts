@@ -0,0 +1,170 @@
+import { Camera } from '@capacitor/camera';
+import { CameraProvider } from '../types/devices';
+
+const PREFERRED_CONSTRAINTS: MediaStreamConstraints = {
+  audio: false,
+  video: {
+    facingMode: { ideal: 'environment' },
+    width: { ideal: 1920 },
+    height: { ideal: 1080 }
+  }
+};
+
+const stopStream = (stream: MediaStream | null) => {
+  stream?.getTracks().forEach(track => track.stop());
+};
+
+const openUserMedia = async (): Promise<MediaStream> => {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new Error('Live camera preview is not supported in this browser');
+  }
+  return navigator.mediaDevices.getUserMedia(PREFERRED_CONSTRAINTS);
+};
+
+export const createWebCameraProvider = (): CameraProvider => {
+  let stream: MediaStream | null = null;
+
+  return {
+    kind: 'web',
+    start: async () => {
+      stopStream(stream);
+      stream = await openUserMedia();
+      return stream;
+    },
+    stop: () => {
+      stopStream(stream);
+      stream = null;
+    }
+  };
+};
+
+export const createCapacitorCameraProvider = (): CameraProvider => {
+  let stream: MediaStream | null = null;
+
+  return {
+    kind: 'capacitor',
+    start: async () => {
+      // The WebView only forwards getUserMedia once the app itself holds the
+      // camera permission, so ask the Camera plugin for it first.
+      const permissions = await Camera.requestPermissions({ permissions: ['camera'] });
+      if (permissions.camera !== 'granted' && permissions.camera !== 'limited') {
+        throw new Error('Camera permission denied');
+      }
+
+      stopStream(stream);
+      stream = await openUserMedia();
+      return stream;
+    },
+    stop: () => {
+      stopStream(stream);
+      stream = null;
+    }
+  };
+};
+
+// Procedurally drawn scene that scrolls slowly, so the preview, capture and
+// anything that compares frames can be exercised on a desktop or in CI.
+export const createSimulatedCameraProvider = (width = 1280, height = 720, fps = 30): CameraProvider => {
+  let stream: MediaStream | null = null;
+  let frameHandle: number | null = null;
+
+  const drawScene = (ctx: CanvasRenderingContext2D, time: number) => {
+    const scroll = (time / 40) % width;
+
+    const sky = ctx.createLinearGradient(0, 0, 0, height);
+    sky.addColorStop(0, '#1e3a8a');
+    sky.addColorStop(0.55, '#93c5fd');
+    sky.addColorStop(0.56, '#166534');
+    sky.addColorStop(1, '#052e16');
+    ctx.fillStyle = sky;
+    ctx.fillRect(0, 0, width, height);
+
+    ctx.fillStyle = '#14532d';
+    ctx.beginPath();
+    ctx.moveTo(0, height);
+    for (let x = 0; x <= width; x += 16) {
+      const worldX = x + scroll;
+      ctx.lineTo(x, height * 0.55 - 60 * Math.abs(Math.sin(worldX / 180)) - 25 * Math.sin(worldX / 47));
+    }
+    ctx.lineTo(width, height);
+    ctx.closePath();
+    ctx.fill();
+
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+    ctx.fillStyle = '#ffffff';
+    ctx.lineWidth = 3;
+    ctx.font = 'bold 28px sans-serif';
+    ctx.textAlign = 'center';
+    const markerSpacing = 160;
+    const firstMarker = Math.floor(scroll / markerSpacing);
+    for (let marker = firstMarker; marker * markerSpacing - scroll < width + markerSpacing; marker++) {
+      const x = marker * markerSpacing - scroll;
+      ctx.beginPath();
+      ctx.moveTo(x, height * 0.2);
+      ctx.lineTo(x, height * 0.35);
+      ctx.stroke();
+      ctx.fillText(String(marker), x, height * 0.18);
+    }
+
+    ctx.font = '16px monospace';
+    ctx.textAlign = 'left';
+    ctx.fillText(`SIMULATED CAMERA ${new Date(time).toISOString()}`, 16, height - 16);
+  };
+
+  return {
+    kind: 'simulated',
+    start: async () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx || typeof canvas.captureStream !== 'function') {
+        throw new Error('Simulated camera requires canvas.captureStream support');
+      }
+
+      const render = () => {
+        drawScene(ctx, Date.now());
+        frameHandle = requestAnimationFrame(render);
+      };
+      render();
+
+      stream = canvas.captureStream(fps);
+      return stream;
+    },
+    stop: () => {
+      if (frameHandle !== null) {
+        cancelAnimationFrame(frameHandle);
+        frameHandle = null;
+      }
+      stopStream(stream);
+      stream = null;
+    }
+  };
+};
+
+/**
+ * Grabs the frame currently shown by the preview at the stream's native
+ * resolution, so capture never has to leave the app.
+ */
+export const grabVideoFrame = (video: HTMLVideoElement, quality: number = 0.9): Promise<Blob> => {
+  if (!video.videoWidth || !video.videoHeight) {
+    return Promise.reject(new Error('Camera preview is not ready yet'));
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    return Promise.reject(new Error('Unable to read frame from camera preview'));
+  }
+
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Unable to encode captured frame'))),
+      'image/jpeg',
+      quality
+    );
+  });
+};
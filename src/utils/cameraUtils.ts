@@ -1,78 +1,183 @@
+import { CapturePoint, CameraAlignment, DeviceMotion, CaptureRow, CaptureLayoutId, CaptureSession, CaptureSettings, CaptureSpacing, GuidanceVector, LensFov, OrientationCalibration, SweepOptions } from '../types/camera';
+import { SessionManifest, SESSION_MANIFEST_VERSION } from '../types/manifest';
+import { angleDifference, normalizeAngle } from './orientation';
+import { getCalibratedPose } from './calibration';
+import { DEFAULT_SWEEP, buildCaptureRows, sweepYaws } from './spacing';
 
-import { CapturePoint, CameraAlignment, DeviceMotion } from '../types/camera';
+// Typical phone main camera held in portrait; used until the lens is known
+export const DEFAULT_HORIZONTAL_FOV = 60;
 
-export const generateCapturePoints = (totalPoints: number): CapturePoint[] => {
+export const CAPTURE_LAYOUTS: { id: CaptureLayoutId; label: string }[] = [
+  { id: 'single-row', label: 'Single row' },
+  { id: 'three-row', label: '3 rows (±45°)' },
+  { id: 'full-sphere', label: 'Full sphere' }
+];
+
+export const toEquirectangular = (yaw: number, pitch: number): { x: number; y: number } => ({
+  x: (normalizeAngle(yaw) / 360) * 100,
+  y: ((90 - pitch) / 180) * 100
+});
+
+export const generateSphericalCapturePoints = (
+  rows: CaptureRow[],
+  lens: LensFov,
+  sweep: SweepOptions = DEFAULT_SWEEP
+): CapturePoint[] => {
   const points: CapturePoint[] = [];
-  
-  for (let i = 0; i < totalPoints; i++) {
-    points.push({
-      id: i,
-      x: (i / (totalPoints - 1)) * 100, // Percentage across screen
-      y: 50, // Middle of screen
-      captured: false
+
+  rows.forEach((row, rowIndex) => {
+    sweepYaws(row.count, row.pitch, lens, sweep).forEach(yaw => {
+      points.push({
+        id: points.length,
+        ...toEquirectangular(yaw, row.pitch),
+        yaw,
+        pitch: row.pitch,
+        row: rowIndex,
+        captured: false
+      });
     });
-  }
-  
+  });
+
   return points;
 };
 
+export const buildLayoutPoints = (
+  layout: CaptureLayoutId,
+  spacing: CaptureSpacing,
+  sweep: SweepOptions = DEFAULT_SWEEP
+): { rows: CaptureRow[]; points: CapturePoint[] } => {
+  const rows = buildCaptureRows(layout, spacing, sweep);
+  return { rows, points: generateSphericalCapturePoints(rows, spacing.lens, sweep) };
+};
+
+// Aimed further up or down than this, the horizon is out of frame and roll readings turn noisy
+const MAX_LEVEL_PITCH = 70;
+
+/** Whether roll means anything when aiming at `point`, whether or not it is enforced. */
+export const isRollMeasurable = (point: CapturePoint): boolean => Math.abs(point.pitch) <= MAX_LEVEL_PITCH;
+
+/** Roll tolerance to enforce for `point`, or null where roll isn't checked. */
+export const getRollTolerance = (point: CapturePoint, settings: CaptureSettings): number | null => {
+  // Sessions from before the setting existed keep capturing without a roll check
+  if (!settings.enforceRoll || !isRollMeasurable(point)) return null;
+  return settings.rollTolerance;
+};
+
 export const calculateAlignment = (
   currentPoint: CapturePoint,
   deviceMotion: DeviceMotion,
-  tolerance: number = 15
+  tolerance: number = 5,
+  referenceHeading: number = 0,
+  calibration: OrientationCalibration | null = null,
+  rollTolerance: number | null = null
 ): CameraAlignment => {
-  // Use gamma for left/right movement (device tilt)
-  // Gamma ranges from -90 to +90 degrees
-  // Negative gamma = device tilted left, positive gamma = device tilted right
-  const horizontalOffset = (deviceMotion.gamma || 0) * 2; // Amplify for better sensitivity
-  
-  // Use beta for forward/back tilt  
-  const verticalOffset = deviceMotion.beta || 0;
-  
-  // Use alpha for rotation (compass heading)
-  const rotation = deviceMotion.alpha || 0;
-
-  // Check alignment with tighter tolerance for better precision
-  const isHorizontallyAligned = Math.abs(horizontalOffset) < tolerance;
-  const isVerticallyAligned = Math.abs(verticalOffset - 45) < 30; // Allow some forward tilt
-  const isRotationAligned = true; // Don't require rotation alignment for now
+  const pose = getCalibratedPose(deviceMotion, calibration);
+
+  // Heading is meaningless when aiming straight up or down, so zenith and
+  // nadir shots only need the pitch to match
+  const isPolePoint = Math.abs(currentPoint.pitch) >= 90;
+  const yawError = isPolePoint
+    ? 0
+    : angleDifference(currentPoint.yaw, normalizeAngle(pose.yaw - referenceHeading));
+  const pitchError = currentPoint.pitch - pose.pitch;
+
+  const rollError = angleDifference(pose.roll, currentPoint.roll ?? 0);
+
+  const pointTolerance = currentPoint.tolerance ?? tolerance;
+  const isYawAligned = Math.abs(yawError) < pointTolerance;
+  const isPitchAligned = Math.abs(pitchError) < pointTolerance;
+  const isRollAligned = rollTolerance === null || Math.abs(rollError) < rollTolerance;
 
   return {
-    isAligned: isHorizontallyAligned && isVerticallyAligned && isRotationAligned,
-    horizontalOffset,
-    verticalOffset,
-    rotation
+    isAligned: isYawAligned && isPitchAligned && isRollAligned,
+    yawError,
+    pitchError,
+    rollError,
+    isRollAligned,
+    roll: pose.roll
   };
 };
 
-export const calculateOverlapPercentage = (
-  currentPoint: CapturePoint,
-  nextPoint: CapturePoint | undefined,
-  userPosition: number // User's current position as percentage
-): number => {
-  if (!nextPoint) return 0;
-  
-  const pointDistance = Math.abs(nextPoint.x - currentPoint.x);
-  const userDistance = Math.abs(userPosition - currentPoint.x);
-  const overlapDistance = pointDistance * 0.3; // 30% overlap
-  
-  return Math.min(100, (userDistance / overlapDistance) * 100);
+/** Single error figure for cues that only convey distance, such as tone pitch. */
+export const getAlignmentErrorMagnitude = (alignment: CameraAlignment): number =>
+  Math.hypot(alignment.yawError, alignment.pitchError, alignment.isRollAligned ? 0 : alignment.rollError);
+
+/** What the operator still has to do to line up with the current point. */
+export const getGuidanceVector = (
+  alignment: CameraAlignment,
+  tolerance: number,
+  rollTolerance: number | null = null
+): GuidanceVector => ({
+  yaw: alignment.yawError,
+  pitch: alignment.pitchError,
+  // Too far clockwise is corrected by rotating back counter-clockwise
+  roll: -alignment.rollError,
+  tolerance,
+  rollTolerance
+});
+
+export const isPointPending = (point: CapturePoint): boolean => !point.captured && !point.skipped;
+
+/**
+ * Index of the next point still to shoot after `fromIndex`, wrapping around
+ * so points deleted earlier in the sequence are picked up at the end.
+ * Returns -1 once every point is captured or skipped.
+ */
+export const findNextPendingIndex = (points: CapturePoint[], fromIndex: number): number => {
+  for (let offset = 1; offset <= points.length; offset++) {
+    const index = (fromIndex + offset) % points.length;
+    if (isPointPending(points[index])) return index;
+  }
+  return -1;
 };
 
 export const generateSessionId = (): string => {
   return `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 };
 
-export const exportCaptureData = (session: any) => {
-  const data = {
+export const getSessionTitle = (session: CaptureSession): string => {
+  return session.name?.trim() || `Session ${session.startTime.toLocaleString()}`;
+};
+
+export const getImageFileName = (point: CapturePoint): string => {
+  return `images/point_${String(point.id + 1).padStart(3, '0')}.jpg`;
+};
+
+export const exportCaptureData = (session: CaptureSession): SessionManifest => {
+  const capturedPoints = session.points.filter(p => p.captured);
+
+  return {
+    manifestVersion: SESSION_MANIFEST_VERSION,
     sessionId: session.id,
-    capturedImages: session.points.filter((p: CapturePoint) => p.captured),
-    metadata: {
-      totalPoints: session.totalPoints,
-      completionTime: session.endTime ? session.endTime.getTime() - session.startTime.getTime() : null,
-      overlapPercentage: session.overlapPercentage
-    }
+    name: session.name ?? null,
+    planName: session.planName ?? null,
+    startTime: session.startTime.toISOString(),
+    endTime: session.endTime ? session.endTime.toISOString() : null,
+    completionTimeMs: session.endTime ? session.endTime.getTime() - session.startTime.getTime() : null,
+    layout: session.layout,
+    rows: session.rows,
+    totalPoints: session.totalPoints,
+    capturedPoints: capturedPoints.length,
+    skippedPointIds: session.points.filter(p => p.skipped).map(p => p.id),
+    overlapPercentage: session.overlapPercentage,
+    // Built-in sessions from before sweeps existed were full left-to-right circles
+    sweep: session.layout === 'plan' ? null : session.sweep ?? DEFAULT_SWEEP,
+    horizontalFov: session.horizontalFov ?? DEFAULT_HORIZONTAL_FOV,
+    verticalFov: session.verticalFov ?? null,
+    referenceHeading: session.referenceHeading,
+    captureSettings: session.captureSettings,
+    cameraSource: session.cameraSource,
+    images: capturedPoints.map(point => ({
+      file: getImageFileName(point),
+      pointId: point.id,
+      row: point.row,
+      label: point.label ?? null,
+      target: { yaw: point.yaw, pitch: point.pitch, roll: point.roll ?? 0 },
+      actual: point.capturedOrientation ?? null,
+      capturedAt: point.capturedAt ? point.capturedAt.toISOString() : null,
+      measuredOverlap: point.measuredOverlap ?? null,
+      quality: point.quality ?? null,
+      retakeCount: point.retakeCount ?? 0
+    }))
   };
-  
-  return JSON.stringify(data, null, 2);
 };
@@ -0,0 +1,129 @@
+import { z } from 'zod';
+import { CaptureLayoutId, CapturePoint, CaptureRow, CaptureSettings, CaptureSpacing, SweepOptions } from '../types/camera';
+import {
+  CAPTURE_PLAN_VERSION,
+  CapturePlan,
+  CapturePlanFieldError,
+  CapturePlanParseResult
+} from '../types/capturePlan';
+import { CAPTURE_LAYOUTS, buildLayoutPoints, toEquirectangular } from './cameraUtils';
+import { plannedOverlap } from './spacing';
+
+const MAX_PLAN_POINTS = 500;
+
+const degrees = (min: number, max: number) =>
+  z.number({ invalid_type_error: 'Must be a number of degrees' })
+    .finite()
+    .min(min, `Must be at least ${min}°`)
+    .max(max, `Must be at most ${max}°`);
+
+const capturePlanPointSchema = z.object({
+  yaw: degrees(-360, 360),
+  pitch: degrees(-90, 90),
+  roll: degrees(-180, 180).optional(),
+  tolerance: degrees(0.5, 45).optional(),
+  label: z.string().max(60, 'Must be 60 characters or fewer').optional(),
+  instruction: z.string().max(200, 'Must be 200 characters or fewer').optional()
+});
+
+export const capturePlanSchema = z.object({
+  planVersion: z.literal(CAPTURE_PLAN_VERSION, {
+    errorMap: () => ({ message: `Unsupported plan version, expected ${CAPTURE_PLAN_VERSION}` })
+  }),
+  name: z.string().trim().min(1, 'A plan needs a name').max(80, 'Must be 80 characters or fewer'),
+  description: z.string().max(500, 'Must be 500 characters or fewer').optional(),
+  horizontalFov: degrees(10, 180).optional(),
+  verticalFov: degrees(10, 180).optional(),
+  overlapPercentage: z.number().min(0, 'Must be at least 0%').max(95, 'Must be at most 95%').optional(),
+  alignmentTolerance: degrees(0.5, 45).optional(),
+  points: z.array(capturePlanPointSchema)
+    .min(1, 'A plan needs at least one point')
+    .max(MAX_PLAN_POINTS, `A plan can have at most ${MAX_PLAN_POINTS} points`)
+});
+
+const formatIssuePath = (path: (string | number)[]): string => {
+  return path.reduce<string>((formatted, segment) => {
+    if (typeof segment === 'number') return `${formatted}[${segment}]`;
+    return formatted ? `${formatted}.${segment}` : segment;
+  }, '');
+};
+
+/** Validates plan JSON, reporting every problem with the field it belongs to. */
+export const parseCapturePlan = (text: string): CapturePlanParseResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return { errors: [{ path: '', message: `Not valid JSON: ${error instanceof Error ? error.message : 'parse error'}` }] };
+  }
+
+  const result = capturePlanSchema.safeParse(data);
+  if (!result.success) {
+    const errors: CapturePlanFieldError[] = result.error.issues.map(issue => ({
+      path: formatIssuePath(issue.path),
+      message: issue.message
+    }));
+    return { errors };
+  }
+  return { plan: result.data as CapturePlan };
+};
+
+export const serializeCapturePlan = (plan: CapturePlan): string => JSON.stringify(plan, null, 2);
+
+export const getCapturePlanFileName = (plan: CapturePlan): string => {
+  const slug = plan.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'capture'}.plan.json`;
+};
+
+/** Expresses one of the built-in layouts as a plan, e.g. to use it as a starting point for editing. */
+export const createPlanFromLayout = (
+  layout: CaptureLayoutId,
+  spacing: CaptureSpacing,
+  sweep: SweepOptions,
+  settings: CaptureSettings
+): CapturePlan => {
+  const label = CAPTURE_LAYOUTS.find(option => option.id === layout)?.label ?? layout;
+  const { rows, points } = buildLayoutPoints(layout, spacing, sweep);
+  return {
+    planVersion: CAPTURE_PLAN_VERSION,
+    name: `${label}, ${sweep.span}°, ${rows[0].count} on horizon`,
+    horizontalFov: spacing.lens.horizontal,
+    verticalFov: spacing.lens.vertical,
+    overlapPercentage: plannedOverlap(spacing, sweep),
+    alignmentTolerance: settings.alignmentTolerance,
+    points: points.map(point => ({ yaw: point.yaw, pitch: point.pitch }))
+  };
+};
+
+/**
+ * Capture points for a plan, kept in the plan's order. Points are grouped
+ * into rows by pitch so overlap checks and stitching work per row as they do
+ * for the built-in layouts.
+ */
+export const buildPlanPoints = (plan: CapturePlan): { rows: CaptureRow[]; points: CapturePoint[] } => {
+  const rows: CaptureRow[] = [];
+
+  const points = plan.points.map((planPoint, index): CapturePoint => {
+    let row = rows.findIndex(existing => existing.pitch === planPoint.pitch);
+    if (row === -1) {
+      rows.push({ pitch: planPoint.pitch, count: 0 });
+      row = rows.length - 1;
+    }
+    rows[row].count++;
+
+    return {
+      id: index,
+      ...toEquirectangular(planPoint.yaw, planPoint.pitch),
+      yaw: planPoint.yaw,
+      pitch: planPoint.pitch,
+      row,
+      roll: planPoint.roll,
+      tolerance: planPoint.tolerance ?? plan.alignmentTolerance,
+      label: planPoint.label,
+      instruction: planPoint.instruction,
+      captured: false
+    };
+  });
+
+  return { rows, points };
+};
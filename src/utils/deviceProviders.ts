@@ -0,0 +1,104 @@
+import { Capacitor } from '@capacitor/core';
+import { DeviceProviderKind, DeviceProviderKinds, DeviceProviders } from '../types/devices';
+import { createCapacitorCameraProvider, createSimulatedCameraProvider, createWebCameraProvider } from './cameraSource';
+import {
+  createCapacitorOrientationProvider,
+  createSimulatedOrientationProvider,
+  createWebOrientationProvider
+} from './orientationProviders';
+import {
+  createCapacitorHapticsProvider,
+  createSimulatedHapticsProvider,
+  createWebHapticsProvider
+} from './hapticsProviders';
+
+// Older links used these names for the camera
+const LEGACY_KIND_ALIASES: Record<string, DeviceProviderKind> = {
+  native: 'capacitor',
+  fake: 'simulated'
+};
+
+const parseKind = (value: string | null): DeviceProviderKind | null => {
+  if (!value) return null;
+  if (value === 'capacitor' || value === 'web' || value === 'simulated') return value;
+  return LEGACY_KIND_ALIASES[value] ?? null;
+};
+
+const detectDefaultKinds = (): DeviceProviderKinds => {
+  if (Capacitor.isNativePlatform()) {
+    return { camera: 'capacitor', orientation: 'capacitor', haptics: 'capacitor' };
+  }
+  return {
+    camera: navigator.mediaDevices?.getUserMedia ? 'web' : 'simulated',
+    orientation: 'DeviceOrientationEvent' in window ? 'web' : 'simulated',
+    haptics: typeof navigator.vibrate === 'function' ? 'web' : 'simulated'
+  };
+};
+
+const SIMULATOR_STORAGE_KEY = 'align-shot-guide:simulator';
+
+/** Whether simulator mode was switched on in settings on this device. */
+export const loadSimulatorPreference = (): boolean => {
+  try {
+    return localStorage.getItem(SIMULATOR_STORAGE_KEY) === 'true';
+  } catch {
+    return false;
+  }
+};
+
+export const saveSimulatorPreference = (enabled: boolean) => {
+  try {
+    if (enabled) {
+      localStorage.setItem(SIMULATOR_STORAGE_KEY, 'true');
+    } else {
+      localStorage.removeItem(SIMULATOR_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.log('Unable to store simulator preference:', error);
+  }
+};
+
+/**
+ * Picks an implementation for each device for this runtime. `?devices=`
+ * sets all three at once, and `?camera=`, `?motion=` and `?haptics=`
+ * override one each, e.g. `?devices=simulated` on a desktop.
+ *
+ * Simulator mode (`?simulator`, `?simulator=0` to turn it off, or the
+ * settings toggle) swaps the motion sensors and haptics for simulated ones
+ * but keeps the real camera, so a laptop webcam still gives a live preview.
+ */
+export const resolveDeviceProviderKinds = (
+  search: string = window.location.search,
+  simulatorPreference: boolean = loadSimulatorPreference()
+): DeviceProviderKinds => {
+  const params = new URLSearchParams(search);
+  const all = parseKind(params.get('devices'));
+  const simulatorFlag = params.get('simulator');
+  const simulator = simulatorFlag === null ? simulatorPreference : simulatorFlag !== '0' && simulatorFlag !== 'false';
+  const defaults = detectDefaultKinds();
+  const simulated = simulator ? 'simulated' : null;
+
+  return {
+    camera: parseKind(params.get('camera')) ?? all ?? defaults.camera,
+    orientation: parseKind(params.get('motion')) ?? all ?? simulated ?? defaults.orientation,
+    haptics: parseKind(params.get('haptics')) ?? all ?? simulated ?? defaults.haptics
+  };
+};
+
+export const createDeviceProviders = (kinds: DeviceProviderKinds): DeviceProviders => ({
+  camera: {
+    capacitor: createCapacitorCameraProvider,
+    web: createWebCameraProvider,
+    simulated: () => createSimulatedCameraProvider()
+  }[kinds.camera](),
+  orientation: {
+    capacitor: createCapacitorOrientationProvider,
+    web: createWebOrientationProvider,
+    simulated: () => createSimulatedOrientationProvider()
+  }[kinds.orientation](),
+  haptics: {
+    capacitor: createCapacitorHapticsProvider,
+    web: createWebHapticsProvider,
+    simulated: createSimulatedHapticsProvider
+  }[kinds.haptics]()
+});
@@ -0,0 +1,134 @@
+import { HapticStyle } from '../types/camera';
+import { HapticImpact, HapticsProvider } from '../types/devices';
+
+export type HapticEvent =
+  | 'detent' // Just came into alignment
+  | 'capture'
+  | 'warning' // Shutter pressed while not aligned, or a shot was flagged
+  | 'rejected' // Shot refused by a check, or the capture failed
+  | 'complete';
+
+interface HapticTap {
+  impact: HapticImpact;
+  delay: number; // ms after the previous tap in the pattern
+}
+
+export interface HapticPatternSet {
+  proximity: HapticImpact;
+  events: Record<HapticEvent, HapticTap[]>;
+}
+
+const tap = (impact: HapticImpact, delay: number = 0): HapticTap => ({ impact, delay });
+
+export const HAPTIC_PATTERNS: Record<Exclude<HapticStyle, 'off'>, HapticPatternSet> = {
+  subtle: {
+    proximity: 'light',
+    events: {
+      detent: [tap('light')],
+      capture: [tap('light')],
+      warning: [tap('light'), tap('light', 120)],
+      rejected: [tap('medium'), tap('medium', 150), tap('medium', 150)],
+      complete: [tap('light'), tap('light', 100), tap('medium', 100)]
+    }
+  },
+  standard: {
+    proximity: 'light',
+    events: {
+      detent: [tap('light')],
+      capture: [tap('medium')],
+      warning: [tap('medium'), tap('medium', 120)],
+      rejected: [tap('heavy'), tap('heavy', 150), tap('heavy', 150)],
+      complete: [tap('light'), tap('medium', 100), tap('heavy', 100), tap('heavy', 250)]
+    }
+  },
+  strong: {
+    proximity: 'medium',
+    events: {
+      detent: [tap('medium')],
+      capture: [tap('heavy')],
+      warning: [tap('heavy'), tap('heavy', 120)],
+      rejected: [tap('heavy'), tap('heavy', 120), tap('heavy', 120), tap('heavy', 120)],
+      complete: [tap('medium'), tap('heavy', 100), tap('heavy', 100), tap('heavy', 250)]
+    }
+  }
+};
+
+// Taps closer together than this are dropped rather than queued
+const MIN_TAP_GAP_MS = 80;
+// Proximity pulses only start within this many degrees of the target
+const PROXIMITY_RANGE = 30;
+const FAR_PULSE_INTERVAL = 900; // ms
+const NEAR_PULSE_INTERVAL = 180;
+
+export interface HapticEngine {
+  play: (event: HapticEvent) => void;
+  /** Degrees off target, pulsing faster as it shrinks; null stops the pulses. */
+  setProximity: (error: number | null) => void;
+  dispose: () => void;
+}
+
+/**
+ * Plays vibration patterns through `provider` without ever driving the
+ * motor faster than MIN_TAP_GAP_MS. Event patterns take priority: proximity
+ * pulses pause while one is playing.
+ */
+export const createHapticEngine = (provider: HapticsProvider, patterns: HapticPatternSet): HapticEngine => {
+  let lastTapAt = -Infinity;
+  let patternEndsAt = -Infinity;
+  let patternTimers: ReturnType<typeof setTimeout>[] = [];
+  let proximityError: number | null = null;
+  let proximityTimer: ReturnType<typeof setTimeout> | null = null;
+  let hasLoggedFailure = false;
+
+  const impact = (style: HapticImpact) => {
+    const now = performance.now();
+    if (now - lastTapAt < MIN_TAP_GAP_MS) return;
+    lastTapAt = now;
+    provider.impact(style).catch(error => {
+      if (hasLoggedFailure) return;
+      hasLoggedFailure = true;
+      console.log('Haptics not supported:', error);
+    });
+  };
+
+  const pulse = () => {
+    proximityTimer = null;
+    if (proximityError === null) return;
+    if (performance.now() >= patternEndsAt) impact(patterns.proximity);
+    const closeness = 1 - proximityError / PROXIMITY_RANGE;
+    proximityTimer = setTimeout(pulse, FAR_PULSE_INTERVAL + (NEAR_PULSE_INTERVAL - FAR_PULSE_INTERVAL) * closeness);
+  };
+
+  const stopPulsing = () => {
+    if (proximityTimer !== null) clearTimeout(proximityTimer);
+    proximityTimer = null;
+  };
+
+  return {
+    play: (event) => {
+      // A newer event replaces whatever pattern was still playing, and
+      // waits out the gap after the last tap rather than losing its first one
+      patternTimers.forEach(clearTimeout);
+      let at = Math.max(0, lastTapAt + MIN_TAP_GAP_MS - performance.now());
+      patternTimers = patterns.events[event].map(step => {
+        at += step.delay;
+        return setTimeout(() => impact(step.impact), at);
+      });
+      patternEndsAt = performance.now() + at + MIN_TAP_GAP_MS;
+    },
+    setProximity: (error) => {
+      proximityError = error === null || Math.abs(error) > PROXIMITY_RANGE ? null : Math.abs(error);
+      if (proximityError === null) {
+        stopPulsing();
+      } else if (proximityTimer === null) {
+        pulse();
+      }
+    },
+    dispose: () => {
+      patternTimers.forEach(clearTimeout);
+      patternTimers = [];
+      proximityError = null;
+      stopPulsing();
+    }
+  };
+};
@@ -0,0 +1,40 @@
+import { Haptics, ImpactStyle } from '@capacitor/haptics';
+import { HapticImpact, HapticsProvider } from '../types/devices';
+
+const IMPACT_STYLES: Record<HapticImpact, ImpactStyle> = {
+  light: ImpactStyle.Light,
+  medium: ImpactStyle.Medium,
+  heavy: ImpactStyle.Heavy
+};
+
+// The Vibration API has no strengths, so longer pulses stand in for harder taps
+const VIBRATION_MS: Record<HapticImpact, number> = {
+  light: 10,
+  medium: 25,
+  heavy: 50
+};
+
+export const createCapacitorHapticsProvider = (): HapticsProvider => ({
+  kind: 'capacitor',
+  impact: async (style) => {
+    await Haptics.impact({ style: IMPACT_STYLES[style] });
+  }
+});
+
+export const createWebHapticsProvider = (): HapticsProvider => ({
+  kind: 'web',
+  impact: async (style) => {
+    if (typeof navigator.vibrate !== 'function') {
+      throw new Error('Vibration is not supported in this browser');
+    }
+    navigator.vibrate(VIBRATION_MS[style]);
+  }
+});
+
+// Logs instead of vibrating, so haptic cues can be followed on a desktop
+export const createSimulatedHapticsProvider = (): HapticsProvider => ({
+  kind: 'simulated',
+  impact: async (style) => {
+    console.debug(`[haptics] ${style} impact`);
+  }
+});
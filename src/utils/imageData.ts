@@ -0,0 +1,47 @@
+import { RawImage } from '../types/stitching';
+
+/**
+ * Decodes an image URL (object or data URL) into RGBA pixels, scaled down so
+ * its longest side is at most `maxDimension`.
+ */
+export const loadRawImage = async (src: string, maxDimension: number = Infinity): Promise<RawImage> => {
+  const response = await fetch(src);
+  const bitmap = await createImageBitmap(await response.blob());
+
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    bitmap.close();
+    throw new Error('Unable to decode image');
+  }
+
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  const { data } = ctx.getImageData(0, 0, width, height);
+  return { width, height, data };
+};
+
+export const rawImageToBlob = (image: RawImage, type: string = 'image/jpeg', quality: number = 0.92): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    return Promise.reject(new Error('Unable to encode image'));
+  }
+
+  ctx.putImageData(new ImageData(image.data, image.width, image.height), 0, 0);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Unable to encode image'))),
+      type,
+      quality
+    );
+  });
+};
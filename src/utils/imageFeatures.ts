@@ -0,0 +1,249 @@
+import {
+  FeatureMatch,
+  FeaturePoint,
+  GrayImage,
+  RawImage,
+  TranslationEstimate
+} from '../types/stitching';
+
+// Gray value used for pixels with no image data (e.g. outside a warped frame)
+const INVALID = -1;
+
+const PATCH_RADIUS = 8;
+const DESCRIPTOR_STEP = 2;
+
+export const toGrayscale = (image: RawImage): GrayImage => {
+  const data = new Float32Array(image.width * image.height);
+  for (let i = 0, p = 0; i < data.length; i++, p += 4) {
+    data[i] = image.data[p + 3] === 0
+      ? INVALID
+      : (0.299 * image.data[p] + 0.587 * image.data[p + 1] + 0.114 * image.data[p + 2]) / 255;
+  }
+  return { width: image.width, height: image.height, data };
+};
+
+/** Box-filter downscale so the longest side is at most `maxDimension`. */
+export const downscaleGray = (gray: GrayImage, maxDimension: number): GrayImage => {
+  const factor = Math.max(1, Math.ceil(Math.max(gray.width, gray.height) / maxDimension));
+  if (factor === 1) return gray;
+
+  const width = Math.floor(gray.width / factor);
+  const height = Math.floor(gray.height / factor);
+  const data = new Float32Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let invalid = false;
+      for (let dy = 0; dy < factor && !invalid; dy++) {
+        const row = (y * factor + dy) * gray.width + x * factor;
+        for (let dx = 0; dx < factor; dx++) {
+          const value = gray.data[row + dx];
+          if (value === INVALID) {
+            invalid = true;
+            break;
+          }
+          sum += value;
+        }
+      }
+      data[y * width + x] = invalid ? INVALID : sum / (factor * factor);
+    }
+  }
+
+  return { width, height, data };
+};
+
+const boxBlur = (gray: GrayImage): GrayImage => {
+  const { width, height } = gray;
+  const data = new Float32Array(gray.data);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      if (gray.data[i] === INVALID) continue;
+      let sum = 0;
+      let count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const value = gray.data[i + dy * width + dx];
+          if (value !== INVALID) {
+            sum += value;
+            count++;
+          }
+        }
+      }
+      data[i] = sum / count;
+    }
+  }
+  return { width, height, data };
+};
+
+const describe = (gray: GrayImage, cx: number, cy: number): Float32Array | null => {
+  const size = (2 * PATCH_RADIUS) / DESCRIPTOR_STEP;
+  const descriptor = new Float32Array(size * size);
+  let mean = 0;
+
+  for (let j = 0, k = 0; j < size; j++) {
+    for (let i = 0; i < size; i++, k++) {
+      const value = gray.data[(cy - PATCH_RADIUS + j * DESCRIPTOR_STEP) * gray.width + (cx - PATCH_RADIUS + i * DESCRIPTOR_STEP)];
+      if (value === INVALID) return null;
+      descriptor[k] = value;
+      mean += value;
+    }
+  }
+
+  mean /= descriptor.length;
+  let norm = 0;
+  for (let k = 0; k < descriptor.length; k++) {
+    descriptor[k] -= mean;
+    norm += descriptor[k] * descriptor[k];
+  }
+  norm = Math.sqrt(norm);
+  if (norm < 1e-3) return null; // Featureless patch
+  for (let k = 0; k < descriptor.length; k++) descriptor[k] /= norm;
+
+  return descriptor;
+};
+
+/**
+ * Harris corners with normalised-patch descriptors. Detection is bucketed
+ * into a grid so features spread across the frame instead of clustering on
+ * the single most textured object.
+ */
+export const detectFeatures = (gray: GrayImage, maxFeatures: number = 400, cellSize: number = 16): FeaturePoint[] => {
+  const { width, height } = gray;
+  const blurred = boxBlur(gray);
+  const gx = new Float32Array(width * height);
+  const gy = new Float32Array(width * height);
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const d = blurred.data;
+      gx[i] = (d[i - width + 1] + 2 * d[i + 1] + d[i + width + 1]) - (d[i - width - 1] + 2 * d[i - 1] + d[i + width - 1]);
+      gy[i] = (d[i + width - 1] + 2 * d[i + width] + d[i + width + 1]) - (d[i - width - 1] + 2 * d[i - width] + d[i - width + 1]);
+    }
+  }
+
+  const border = PATCH_RADIUS + 2;
+  const candidates: { x: number; y: number; score: number }[] = [];
+
+  for (let cellY = border; cellY < height - border; cellY += cellSize) {
+    for (let cellX = border; cellX < width - border; cellX += cellSize) {
+      let best = { x: 0, y: 0, score: 0 };
+      for (let y = cellY; y < Math.min(cellY + cellSize, height - border); y++) {
+        for (let x = cellX; x < Math.min(cellX + cellSize, width - border); x++) {
+          let sxx = 0, syy = 0, sxy = 0;
+          for (let dy = -1; dy <= 1; dy++) {
+            for (let dx = -1; dx <= 1; dx++) {
+              const i = (y + dy) * width + x + dx;
+              sxx += gx[i] * gx[i];
+              syy += gy[i] * gy[i];
+              sxy += gx[i] * gy[i];
+            }
+          }
+          const trace = sxx + syy;
+          const score = sxx * syy - sxy * sxy - 0.04 * trace * trace;
+          if (score > best.score) best = { x, y, score };
+        }
+      }
+      if (best.score > 1e-4) candidates.push(best);
+    }
+  }
+
+  candidates.sort((a, b) => b.score - a.score);
+
+  const features: FeaturePoint[] = [];
+  for (const candidate of candidates) {
+    if (features.length >= maxFeatures) break;
+    const descriptor = describe(blurred, candidate.x, candidate.y);
+    if (descriptor) features.push({ ...candidate, descriptor });
+  }
+  return features;
+};
+
+const descriptorDistance = (a: Float32Array, b: Float32Array): number => {
+  let sum = 0;
+  for (let k = 0; k < a.length; k++) {
+    const diff = a[k] - b[k];
+    sum += diff * diff;
+  }
+  return sum;
+};
+
+export interface MatchOptions {
+  // Expected offset of B in A's coordinates and how far from it to search
+  prior?: { dx: number; dy: number; radius: number };
+  ratio?: number; // Lowe's ratio test threshold
+}
+
+export const matchFeatures = (
+  a: FeaturePoint[],
+  b: FeaturePoint[],
+  options: MatchOptions = {}
+): FeatureMatch[] => {
+  const ratio = options.ratio ?? 0.8;
+  const matches: FeatureMatch[] = [];
+
+  for (const featureB of b) {
+    let best: FeaturePoint | null = null;
+    let bestDistance = Infinity;
+    let secondDistance = Infinity;
+
+    for (const featureA of a) {
+      if (options.prior) {
+        const ex = featureB.x + options.prior.dx - featureA.x;
+        const ey = featureB.y + options.prior.dy - featureA.y;
+        if (ex * ex + ey * ey > options.prior.radius * options.prior.radius) continue;
+      }
+
+      const distance = descriptorDistance(featureA.descriptor, featureB.descriptor);
+      if (distance < bestDistance) {
+        secondDistance = bestDistance;
+        bestDistance = distance;
+        best = featureA;
+      } else if (distance < secondDistance) {
+        secondDistance = distance;
+      }
+    }
+
+    if (best && bestDistance < ratio * ratio * secondDistance) {
+      matches.push({ a: best, b: featureB, distance: bestDistance });
+    }
+  }
+
+  return matches;
+};
+
+/**
+ * RANSAC over single-match translation hypotheses, refined by averaging the
+ * inliers of the best one. Returns null when no hypothesis is supported by
+ * at least `minInliers` matches.
+ */
+export const estimateTranslation = (
+  matches: FeatureMatch[],
+  threshold: number = 3,
+  minInliers: number = 6,
+  iterations: number = 200
+): TranslationEstimate | null => {
+  if (matches.length < minInliers) return null;
+
+  let bestInliers: FeatureMatch[] = [];
+  const tries = Math.min(iterations, matches.length);
+  for (let t = 0; t < tries; t++) {
+    // Deterministic stride through the matches keeps results reproducible
+    const sample = matches[Math.floor((t * matches.length) / tries)];
+    const dx = sample.a.x - sample.b.x;
+    const dy = sample.a.y - sample.b.y;
+
+    const inliers = matches.filter(m =>
+      Math.abs(m.a.x - m.b.x - dx) <= threshold && Math.abs(m.a.y - m.b.y - dy) <= threshold
+    );
+    if (inliers.length > bestInliers.length) bestInliers = inliers;
+  }
+
+  if (bestInliers.length < minInliers) return null;
+
+  const dx = bestInliers.reduce((sum, m) => sum + m.a.x - m.b.x, 0) / bestInliers.length;
+  const dy = bestInliers.reduce((sum, m) => sum + m.a.y - m.b.y, 0) / bestInliers.length;
+  return { dx, dy, inliers: bestInliers.length, matches: matches.length };
+};
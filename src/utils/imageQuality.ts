@@ -0,0 +1,80 @@
+import { CaptureSettings, ImageQuality, ImageQualityIssue } from '../types/camera';
+import { GrayImage } from '../types/stitching';
+import { toGrayscale } from './imageFeatures';
+import { loadRawImage } from './imageData';
+
+// Large enough to keep fine texture, small enough to analyse on every shot
+const QUALITY_MAX_DIMENSION = 640;
+
+// Luminance at or beyond these counts as clipped
+const SHADOW_LEVEL = 4 / 255;
+const HIGHLIGHT_LEVEL = 251 / 255;
+
+const laplacianVariance = (gray: GrayImage): number => {
+  const { width, height, data } = gray;
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = (data[i - 1] + data[i + 1] + data[i - width] + data[i + width] - 4 * data[i]) * 255;
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+};
+
+const clippedPercentages = (gray: GrayImage): { shadows: number; highlights: number } => {
+  let shadows = 0;
+  let highlights = 0;
+  for (let i = 0; i < gray.data.length; i++) {
+    if (gray.data[i] <= SHADOW_LEVEL) shadows++;
+    else if (gray.data[i] >= HIGHLIGHT_LEVEL) highlights++;
+  }
+  const total = Math.max(1, gray.data.length);
+  return { shadows: (shadows / total) * 100, highlights: (highlights / total) * 100 };
+};
+
+export const getImageQualityIssues = (
+  quality: Omit<ImageQuality, 'issues'>,
+  settings: CaptureSettings
+): ImageQualityIssue[] => {
+  const issues: ImageQualityIssue[] = [];
+  if (quality.sharpness < settings.minSharpness) issues.push('blurry');
+  if (quality.shadowClipping > settings.maxClipping) issues.push('underexposed');
+  if (quality.highlightClipping > settings.maxClipping) issues.push('overexposed');
+  return issues;
+};
+
+/**
+ * Scores a captured frame for blur (variance of the Laplacian: a shaken
+ * shot has few sharp edges) and exposure (share of pixels clipped to pure
+ * black or white), judged against the session's thresholds.
+ */
+export const analyzeImageQuality = async (src: string, settings: CaptureSettings): Promise<ImageQuality> => {
+  const gray = toGrayscale(await loadRawImage(src, QUALITY_MAX_DIMENSION));
+  const { shadows, highlights } = clippedPercentages(gray);
+  const measured = {
+    sharpness: Math.round(laplacianVariance(gray)),
+    shadowClipping: Math.round(shadows * 10) / 10,
+    highlightClipping: Math.round(highlights * 10) / 10
+  };
+  return { ...measured, issues: getImageQualityIssues(measured, settings) };
+};
+
+const ISSUE_LABELS: Record<ImageQualityIssue, string> = {
+  blurry: 'blurred',
+  underexposed: 'too dark',
+  overexposed: 'too bright'
+};
+
+export const describeQualityIssues = (issues: ImageQualityIssue[]): string => {
+  return issues.map(issue => ISSUE_LABELS[issue]).join(', ');
+};
@@ -0,0 +1,27 @@
+import { CaptureSettings, LensFov, LensProfileId } from '../types/camera';
+
+export interface LensProfile {
+  id: Exclude<LensProfileId, 'custom'>;
+  label: string;
+  fov: LensFov;
+}
+
+// Typical 4:3 phone sensors held in portrait, by 35mm-equivalent focal length
+export const LENS_PROFILES: LensProfile[] = [
+  { id: 'phone-main', label: 'Main camera (26mm)', fov: { horizontal: 53, vertical: 67 } },
+  { id: 'phone-ultrawide', label: 'Ultra-wide (13mm)', fov: { horizontal: 90, vertical: 106 } },
+  { id: 'phone-tele-2x', label: 'Telephoto 2x (52mm)', fov: { horizontal: 28, vertical: 37 } },
+  { id: 'phone-tele-3x', label: 'Telephoto 3x (77mm)', fov: { horizontal: 19, vertical: 25 } }
+];
+
+export const resolveLensFov = (settings: CaptureSettings): LensFov => {
+  if (settings.lensProfile === 'custom') return settings.customLensFov;
+  return LENS_PROFILES.find(profile => profile.id === settings.lensProfile)?.fov ?? LENS_PROFILES[0].fov;
+};
+
+export const getLensLabel = (settings: CaptureSettings): string => {
+  if (settings.lensProfile === 'custom') {
+    return `Custom ${settings.customLensFov.horizontal}°×${settings.customLensFov.vertical}°`;
+  }
+  return LENS_PROFILES.find(profile => profile.id === settings.lensProfile)?.label ?? LENS_PROFILES[0].label;
+};
@@ -0,0 +1,179 @@
+import { DeviceMotion } from '../types/camera';
+
+const DEG_TO_RAD = Math.PI / 180;
+const RAD_TO_DEG = 180 / Math.PI;
+
+type OrientationAngles = Pick<DeviceMotion, 'alpha' | 'beta' | 'gamma'>;
+
+export const normalizeAngle = (degrees: number): number => {
+  return ((degrees % 360) + 360) % 360;
+};
+
+/**
+ * Signed shortest rotation from `current` to `target` in degrees, in the
+ * range (-180, 180]. Handles the 0/360 wraparound of compass headings.
+ */
+export const angleDifference = (target: number, current: number): number => {
+  const diff = normalizeAngle(target - current);
+  return diff > 180 ? diff - 360 : diff;
+};
+
+export interface CameraPose {
+  yaw: number; // Clockwise heading of the rear camera, 0-360
+  pitch: number; // Elevation of the rear camera, -90 (down) to +90 (up)
+  roll: number; // Rotation about the view axis from level, positive = clockwise as the operator sees the screen
+}
+
+/**
+ * Direction the rear camera is pointing, derived from the full W3C
+ * alpha/beta/gamma rotation rather than the raw angles so that holding the
+ * phone upright (beta ≈ 90°, where alpha and gamma become coupled) still
+ * yields a stable heading.
+ *
+ * Roll comes from how far the screen's right edge dips below the horizon,
+ * which doesn't involve alpha at all, so it holds steady while turning. It
+ * is only meaningful away from straight up or down.
+ */
+export const getCameraPose = (motion: OrientationAngles): CameraPose => {
+  const alpha = motion.alpha * DEG_TO_RAD;
+  const beta = motion.beta * DEG_TO_RAD;
+  const gamma = motion.gamma * DEG_TO_RAD;
+
+  const cA = Math.cos(alpha), sA = Math.sin(alpha);
+  const cB = Math.cos(beta), sB = Math.sin(beta);
+  const cG = Math.cos(gamma), sG = Math.sin(gamma);
+
+  // The rear camera looks along the device's -Z axis; express it in
+  // east/north/up world coordinates.
+  const east = -(cG * sA * sB + cA * sG);
+  const north = -(sA * sG - cA * cG * sB);
+  const up = -(cB * cG);
+
+  // Height above the horizon of the device's X (screen right) and Y (screen up) axes
+  const rightUp = -cB * sG;
+  const topUp = sB;
+
+  return {
+    yaw: normalizeAngle(Math.atan2(east, north) * RAD_TO_DEG),
+    pitch: Math.asin(Math.max(-1, Math.min(1, up))) * RAD_TO_DEG,
+    roll: Math.atan2(-rightUp, topUp) * RAD_TO_DEG
+  };
+};
+
+export type Quaternion = [number, number, number, number]; // [w, x, y, z]
+
+export const IDENTITY_QUATERNION: Quaternion = [1, 0, 0, 0];
+
+export const multiplyQuaternions = (a: Quaternion, b: Quaternion): Quaternion => [
+  a[0] * b[0] - a[1] * b[1] - a[2] * b[2] - a[3] * b[3],
+  a[0] * b[1] + a[1] * b[0] + a[2] * b[3] - a[3] * b[2],
+  a[0] * b[2] - a[1] * b[3] + a[2] * b[0] + a[3] * b[1],
+  a[0] * b[3] + a[1] * b[2] - a[2] * b[1] + a[3] * b[0]
+];
+
+export const normalizeQuaternion = (q: Quaternion): Quaternion => {
+  const length = Math.hypot(q[0], q[1], q[2], q[3]) || 1;
+  return [q[0] / length, q[1] / length, q[2] / length, q[3] / length];
+};
+
+/** Rotation of `angle` radians about the (not necessarily unit) `axis`. */
+export const quaternionFromAxisAngle = (axis: [number, number, number], angle: number): Quaternion => {
+  const length = Math.hypot(axis[0], axis[1], axis[2]);
+  if (length < 1e-9 || angle === 0) return IDENTITY_QUATERNION;
+  const s = Math.sin(angle / 2) / length;
+  return [Math.cos(angle / 2), axis[0] * s, axis[1] * s, axis[2] * s];
+};
+
+/** Device-to-earth rotation for W3C alpha/beta/gamma (intrinsic Z-X'-Y''). */
+export const quaternionFromMotion = (motion: OrientationAngles): Quaternion => {
+  const qz = quaternionFromAxisAngle([0, 0, 1], motion.alpha * DEG_TO_RAD);
+  const qx = quaternionFromAxisAngle([1, 0, 0], motion.beta * DEG_TO_RAD);
+  const qy = quaternionFromAxisAngle([0, 1, 0], motion.gamma * DEG_TO_RAD);
+  return multiplyQuaternions(multiplyQuaternions(qz, qx), qy);
+};
+
+/**
+ * Inverse of `quaternionFromMotion`, returning angles in the W3C ranges
+ * (alpha 0-360, beta -180-180, gamma -90-90).
+ */
+export const motionFromQuaternion = (q: Quaternion): OrientationAngles => {
+  const [w, x, y, z] = q;
+  const m11 = 1 - 2 * (y * y + z * z);
+  const m12 = 2 * (x * y - w * z);
+  const m21 = 2 * (x * y + w * z);
+  const m22 = 1 - 2 * (x * x + z * z);
+  const m31 = 2 * (x * z - w * y);
+  const m32 = 2 * (y * z + w * x);
+  const m33 = 1 - 2 * (x * x + y * y);
+
+  const cosBetaCosGamma = m33;
+  const cosBetaSinGamma = -m31;
+  if (Math.hypot(cosBetaCosGamma, cosBetaSinGamma) < 1e-6) {
+    // Device exactly upright: only alpha + gamma is observable, fold it all into alpha
+    return {
+      alpha: normalizeAngle(Math.atan2(m21, m11) * RAD_TO_DEG),
+      beta: m32 > 0 ? 90 : -90,
+      gamma: 0
+    };
+  }
+
+  let gamma = Math.atan2(cosBetaSinGamma, cosBetaCosGamma);
+  let cosSign = 1;
+  if (gamma > Math.PI / 2 || gamma <= -Math.PI / 2) {
+    gamma = gamma > 0 ? gamma - Math.PI : gamma + Math.PI;
+    cosSign = -1;
+  }
+  const cosBeta = cosSign * Math.hypot(cosBetaCosGamma, cosBetaSinGamma);
+
+  return {
+    alpha: normalizeAngle(Math.atan2(-m12 * cosSign, m22 * cosSign) * RAD_TO_DEG),
+    beta: Math.atan2(m32, cosBeta) * RAD_TO_DEG,
+    gamma: gamma * RAD_TO_DEG
+  };
+};
+
+/** Spherical interpolation, always along the shorter arc. */
+export const slerpQuaternions = (a: Quaternion, b: Quaternion, t: number): Quaternion => {
+  let dot = a[0] * b[0] + a[1] * b[1] + a[2] * b[2] + a[3] * b[3];
+  let target = b;
+  if (dot < 0) {
+    dot = -dot;
+    target = [-b[0], -b[1], -b[2], -b[3]];
+  }
+
+  if (dot > 0.9995) {
+    return normalizeQuaternion([
+      a[0] + (target[0] - a[0]) * t,
+      a[1] + (target[1] - a[1]) * t,
+      a[2] + (target[2] - a[2]) * t,
+      a[3] + (target[3] - a[3]) * t
+    ]);
+  }
+
+  const theta = Math.acos(dot);
+  const sinTheta = Math.sin(theta);
+  const wa = Math.sin((1 - t) * theta) / sinTheta;
+  const wb = Math.sin(t * theta) / sinTheta;
+  return [
+    a[0] * wa + target[0] * wb,
+    a[1] * wa + target[1] * wb,
+    a[2] * wa + target[2] * wb,
+    a[3] * wa + target[3] * wb
+  ];
+};
+
+/** Angle in degrees between two orientations. */
+export const quaternionAngle = (a: Quaternion, b: Quaternion): number => {
+  const dot = Math.abs(a[0] * b[0] + a[1] * b[1] + a[2] * b[2] + a[3] * b[3]);
+  return 2 * Math.acos(Math.min(1, dot)) * RAD_TO_DEG;
+};
+
+/** Inverse of `getCameraPose`, for the simulator. */
+export const motionFromCameraPose = (pose: CameraPose): OrientationAngles => {
+  // Upright in portrait facing north is beta = 90; from there yaw turns about
+  // world up, pitch tilts the top edge back and roll spins about device Z
+  const heading = quaternionFromAxisAngle([0, 0, 1], -pose.yaw * DEG_TO_RAD);
+  const tilt = quaternionFromAxisAngle([1, 0, 0], (90 + pose.pitch) * DEG_TO_RAD);
+  const spin = quaternionFromAxisAngle([0, 0, 1], -pose.roll * DEG_TO_RAD);
+  return motionFromQuaternion(multiplyQuaternions(multiplyQuaternions(heading, tilt), spin));
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { MotionSample } from '../types/camera';
+import { angleDifference } from './orientation';
+import { createOrientationFilter, runOrientationFilter } from './orientationFilter';
+
+const SAMPLE_INTERVAL = 16; // ms, roughly what browsers deliver
+
+const orientation = (timestamp: number, alpha: number, beta: number, gamma: number): MotionSample => ({
+  type: 'orientation',
+  timestamp,
+  alpha,
+  beta,
+  gamma
+});
+
+const rotation = (timestamp: number, alpha: number, beta: number, gamma: number): MotionSample => ({
+  type: 'motion',
+  timestamp,
+  rotationRate: { alpha, beta, gamma },
+  gravity: null
+});
+
+/** Orientation readings every SAMPLE_INTERVAL ms for `duration`, starting after `start`. */
+const steadyReadings = (start: number, duration: number, alpha: number, beta: number, gamma: number) =>
+  Array.from({ length: Math.round(duration / SAMPLE_INTERVAL) }, (_, i) =>
+    orientation(start + (i + 1) * SAMPLE_INTERVAL, alpha, beta, gamma)
+  );
+
+describe('createOrientationFilter', () => {
+  it('settles on a stationary reading', () => {
+    const estimates = runOrientationFilter([
+      orientation(0, 10, 45, 0),
+      ...steadyReadings(0, 2000, 40, 60, 5)
+    ]);
+    const last = estimates[estimates.length - 1];
+
+    expect(last).not.toBeNull();
+    expect(Math.abs(angleDifference(40, last!.alpha))).toBeLessThan(0.5);
+    expect(last!.beta).toBeCloseTo(60, 0);
+    expect(last!.gamma).toBeCloseTo(5, 0);
+    expect(last!.angularSpeed).toBeLessThan(1);
+  });
+
+  it('smooths across the 0/360 alpha wraparound instead of swinging through 180', () => {
+    const estimates = runOrientationFilter([
+      orientation(0, 350, 45, 0),
+      ...steadyReadings(0, 2000, 10, 45, 0)
+    ]);
+
+    estimates.forEach(estimate => {
+      const alpha = estimate!.alpha;
+      // Every intermediate heading lies on the short arc from 350 to 10
+      expect(Math.abs(angleDifference(0, alpha))).toBeLessThanOrEqual(10.5);
+    });
+    expect(Math.abs(angleDifference(10, estimates[estimates.length - 1]!.alpha))).toBeLessThan(0.5);
+  });
+
+  it('integrates gyro rotation rates between orientation readings', () => {
+    const filter = createOrientationFilter();
+    filter.push(orientation(0, 0, 0, 0));
+
+    // A quarter turn about the screen normal over one second, with no orientation readings to correct it
+    let estimate = null;
+    for (let t = 10; t <= 1000; t += 10) {
+      estimate = filter.push(rotation(t, 90, 0, 0));
+    }
+
+    expect(estimate).not.toBeNull();
+    expect(Math.abs(angleDifference(90, estimate!.alpha))).toBeLessThan(1);
+    expect(estimate!.beta).toBeCloseTo(0, 0);
+    expect(estimate!.angularSpeed).toBeGreaterThan(80);
+  });
+
+  it('subtracts the configured gyro bias', () => {
+    const filter = createOrientationFilter({ gyroBias: { alpha: 2, beta: 0, gamma: 0 } });
+    filter.push(orientation(0, 0, 0, 0));
+
+    let estimate = null;
+    for (let t = 10; t <= 1000; t += 10) {
+      estimate = filter.push(rotation(t, 2, 0, 0));
+    }
+
+    expect(Math.abs(angleDifference(0, estimate!.alpha))).toBeLessThan(0.1);
+  });
+});
@@ -0,0 +1,182 @@
+import { DeviceMotion, MotionSample } from '../types/camera';
+import {
+  Quaternion,
+  multiplyQuaternions,
+  normalizeQuaternion,
+  quaternionAngle,
+  quaternionFromAxisAngle,
+  quaternionFromMotion,
+  motionFromQuaternion,
+  slerpQuaternions
+} from './orientation';
+
+export interface OrientationFilterConfig {
+  timeConstant: number; // ms, smoothing applied to orientation readings when no gyro data is available
+  gyroWeight: number; // 0-1, share of the gyro-integrated estimate kept on each orientation reading
+  gravityWeight: number; // 0-1, share of the tilt error corrected from each accelerometer reading
+  maxSampleGap: number; // ms, longer gaps reset integration instead of extrapolating across them
+  gyroBias: { alpha: number; beta: number; gamma: number }; // deg/s subtracted from every rotation rate reading
+}
+
+export const DEFAULT_ORIENTATION_FILTER_CONFIG: OrientationFilterConfig = {
+  timeConstant: 120,
+  gyroWeight: 0.96,
+  gravityWeight: 0.02,
+  maxSampleGap: 500,
+  gyroBias: { alpha: 0, beta: 0, gamma: 0 }
+};
+
+const DEG_TO_RAD = Math.PI / 180;
+const STANDARD_GRAVITY = 9.81;
+// Accelerometer readings this far from 1g include hand motion, not just gravity
+const GRAVITY_TOLERANCE = 1.5;
+
+export interface OrientationFilter {
+  push: (sample: MotionSample) => DeviceMotion | null;
+  reset: () => void;
+}
+
+/**
+ * Complementary filter for orientation. Gyro rotation rates are integrated
+ * for responsiveness, accelerometer gravity pulls the tilt back towards true
+ * level, and the OS orientation readings correct long-term drift and
+ * heading. Without gyro data it degrades to a time-constant low-pass over
+ * the orientation readings.
+ *
+ * All blending happens on the rotation itself rather than on the individual
+ * angles, so alpha's 0/360 wraparound is averaged on the circle and the
+ * alpha/gamma coupling of an upright phone does not produce jumps.
+ */
+export const createOrientationFilter = (
+  config: Partial<OrientationFilterConfig> = {}
+): OrientationFilter => {
+  const settings = { ...DEFAULT_ORIENTATION_FILTER_CONFIG, ...config };
+
+  let estimate: Quaternion | null = null;
+  let lastOrientationTime: number | null = null;
+  let lastMotionTime: number | null = null;
+  let lastGyroTime: number | null = null;
+  let lastTimestamp = 0;
+  let angularSpeed = 0;
+
+  const smoothSpeed = (speed: number, dt: number) => {
+    const factor = dt / (settings.timeConstant + dt);
+    angularSpeed += (speed - angularSpeed) * factor;
+  };
+
+  const output = (): DeviceMotion | null => {
+    if (!estimate) return null;
+    return {
+      ...motionFromQuaternion(estimate),
+      timestamp: lastTimestamp,
+      angularSpeed
+    };
+  };
+
+  const pushOrientation = (sample: Extract<MotionSample, { type: 'orientation' }>) => {
+    if (sample.alpha === null || sample.beta === null || sample.gamma === null) return;
+
+    const measured = quaternionFromMotion({ alpha: sample.alpha, beta: sample.beta, gamma: sample.gamma });
+    const dt = lastOrientationTime === null ? null : sample.timestamp - lastOrientationTime;
+    lastOrientationTime = sample.timestamp;
+
+    if (!estimate || dt === null || dt <= 0 || dt > settings.maxSampleGap) {
+      estimate = measured;
+      return;
+    }
+
+    const gyroActive = lastGyroTime !== null && sample.timestamp - lastGyroTime <= settings.maxSampleGap;
+    if (!gyroActive) {
+      smoothSpeed(quaternionAngle(estimate, measured) / (dt / 1000), dt);
+    }
+
+    const correction = gyroActive
+      ? 1 - settings.gyroWeight
+      : dt / (settings.timeConstant + dt);
+    estimate = normalizeQuaternion(slerpQuaternions(estimate, measured, correction));
+  };
+
+  const pushMotion = (sample: Extract<MotionSample, { type: 'motion' }>) => {
+    const dt = lastMotionTime === null ? null : sample.timestamp - lastMotionTime;
+    lastMotionTime = sample.timestamp;
+    if (!estimate || dt === null || dt <= 0 || dt > settings.maxSampleGap) return;
+
+    const rate = sample.rotationRate;
+    if (rate && rate.alpha !== null && rate.beta !== null && rate.gamma !== null) {
+      lastGyroTime = sample.timestamp;
+
+      // Rotation rates are in the device frame: beta about X, gamma about Y, alpha about Z
+      const bias = settings.gyroBias;
+      const axis: [number, number, number] = [
+        rate.beta - bias.beta,
+        rate.gamma - bias.gamma,
+        rate.alpha - bias.alpha
+      ];
+      const speed = Math.hypot(axis[0], axis[1], axis[2]);
+      const delta = quaternionFromAxisAngle(axis, speed * DEG_TO_RAD * (dt / 1000));
+      estimate = normalizeQuaternion(multiplyQuaternions(estimate, delta));
+      smoothSpeed(speed, dt);
+    }
+
+    const gravity = sample.gravity;
+    if (gravity && gravity.x !== null && gravity.y !== null && gravity.z !== null) {
+      const magnitude = Math.hypot(gravity.x, gravity.y, gravity.z);
+      if (Math.abs(magnitude - STANDARD_GRAVITY) > GRAVITY_TOLERANCE) return;
+
+      // World "up" as the estimate currently sees it, expressed in the device frame
+      const [w, x, y, z] = estimate;
+      const predicted: [number, number, number] = [
+        2 * (x * z - w * y),
+        2 * (y * z + w * x),
+        1 - 2 * (x * x + y * y)
+      ];
+      const measured: [number, number, number] = [
+        gravity.x / magnitude,
+        gravity.y / magnitude,
+        gravity.z / magnitude
+      ];
+
+      const axis: [number, number, number] = [
+        measured[1] * predicted[2] - measured[2] * predicted[1],
+        measured[2] * predicted[0] - measured[0] * predicted[2],
+        measured[0] * predicted[1] - measured[1] * predicted[0]
+      ];
+      const dot = measured[0] * predicted[0] + measured[1] * predicted[1] + measured[2] * predicted[2];
+      const angle = Math.acos(Math.max(-1, Math.min(1, dot)));
+      const correction = quaternionFromAxisAngle(axis, angle * settings.gravityWeight);
+      estimate = normalizeQuaternion(multiplyQuaternions(estimate, correction));
+    }
+  };
+
+  return {
+    push: (sample) => {
+      if (sample.type === 'orientation') {
+        pushOrientation(sample);
+      } else {
+        pushMotion(sample);
+      }
+      lastTimestamp = Math.max(lastTimestamp, sample.timestamp);
+      return output();
+    },
+    reset: () => {
+      estimate = null;
+      lastOrientationTime = null;
+      lastMotionTime = null;
+      lastGyroTime = null;
+      lastTimestamp = 0;
+      angularSpeed = 0;
+    }
+  };
+};
+
+/**
+ * Runs a recorded sample stream through a fresh filter and returns the
+ * estimate after every sample, e.g. for comparing filter settings offline.
+ */
+export const runOrientationFilter = (
+  samples: MotionSample[],
+  config: Partial<OrientationFilterConfig> = {}
+): (DeviceMotion | null)[] => {
+  const filter = createOrientationFilter(config);
+  return samples.map(sample => filter.push(sample));
+};
@@ -0,0 +1,158 @@
+import { Motion } from '@capacitor/motion';
+import { MotionSample } from '../types/camera';
+import {
+  DeviceOrientationAngles,
+  OrientationProvider,
+  SimulatedOrientationProvider,
+  SimulatedSensorNoise
+} from '../types/devices';
+import {
+  motionFromQuaternion,
+  multiplyQuaternions,
+  normalizeQuaternion,
+  quaternionFromAxisAngle,
+  quaternionFromMotion
+} from './orientation';
+
+type SampleListener = (sample: MotionSample) => void;
+
+export const createCapacitorOrientationProvider = (): OrientationProvider => ({
+  kind: 'capacitor',
+  subscribe: async (listener: SampleListener) => {
+    const orientation = await Motion.addListener('orientation', (event) => {
+      listener({
+        type: 'orientation',
+        timestamp: performance.now(),
+        alpha: event.alpha ?? null,
+        beta: event.beta ?? null,
+        gamma: event.gamma ?? null
+      });
+    });
+
+    const accel = await Motion.addListener('accel', (event) => {
+      listener({
+        type: 'motion',
+        timestamp: performance.now(),
+        rotationRate: event.rotationRate ?? null,
+        gravity: event.accelerationIncludingGravity ?? null
+      });
+    });
+
+    return () => {
+      orientation.remove();
+      accel.remove();
+    };
+  }
+});
+
+// iOS Safari 13+ only delivers sensor events after an explicit grant
+type PermissionRequestingEvent = { requestPermission?: () => Promise<'granted' | 'denied'> };
+
+export const createWebOrientationProvider = (): OrientationProvider => ({
+  kind: 'web',
+  subscribe: async (listener: SampleListener) => {
+    if (typeof window === 'undefined' || !('DeviceOrientationEvent' in window)) {
+      throw new Error('Device orientation is not supported in this browser');
+    }
+
+    const handleOrientation = (event: DeviceOrientationEvent) => {
+      listener({
+        type: 'orientation',
+        timestamp: performance.now(),
+        alpha: event.alpha,
+        beta: event.beta,
+        gamma: event.gamma
+      });
+    };
+
+    const handleMotion = (event: DeviceMotionEvent) => {
+      const { rotationRate, accelerationIncludingGravity: gravity } = event;
+      listener({
+        type: 'motion',
+        timestamp: performance.now(),
+        rotationRate: rotationRate
+          ? { alpha: rotationRate.alpha, beta: rotationRate.beta, gamma: rotationRate.gamma }
+          : null,
+        gravity: gravity ? { x: gravity.x, y: gravity.y, z: gravity.z } : null
+      });
+    };
+
+    window.addEventListener('deviceorientation', handleOrientation);
+    window.addEventListener('devicemotion', handleMotion);
+    return () => {
+      window.removeEventListener('deviceorientation', handleOrientation);
+      window.removeEventListener('devicemotion', handleMotion);
+    };
+  },
+  requestPermission: async () => {
+    const requests = [DeviceOrientationEvent, DeviceMotionEvent]
+      .map(event => (event as unknown as PermissionRequestingEvent).requestPermission)
+      .filter((request): request is () => Promise<'granted' | 'denied'> => typeof request === 'function');
+    if (requests.length === 0) return true;
+    const results = await Promise.all(requests.map(request => request()));
+    return results.every(result => result === 'granted');
+  }
+});
+
+// Phone upright in portrait with the rear camera facing the horizon
+const DEFAULT_SIMULATED_ORIENTATION: DeviceOrientationAngles = { alpha: 0, beta: 90, gamma: 0 };
+
+const SIMULATED_SAMPLE_INTERVAL_MS = 1000 / 60;
+const DEG_TO_RAD = Math.PI / 180;
+
+// Standard normal sample (Box-Muller)
+const gaussian = () => {
+  const u = 1 - Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * Math.random());
+};
+
+export const isSimulatedOrientationProvider = (
+  provider: OrientationProvider
+): provider is SimulatedOrientationProvider => provider.kind === 'simulated';
+
+/**
+ * Orientation that only changes when told to, reported at a steady 60 Hz
+ * like a real sensor. Only absolute orientation is reported, no gyroscope.
+ * With noise set, each reading wobbles randomly and the heading slowly
+ * drifts the way a magnetometer-corrected compass does.
+ */
+export const createSimulatedOrientationProvider = (
+  initial: DeviceOrientationAngles = DEFAULT_SIMULATED_ORIENTATION
+): SimulatedOrientationProvider => {
+  let orientation = { ...initial };
+  let noise: SimulatedSensorNoise = { jitter: 0, drift: 0 };
+  let driftAngle = 0; // Degrees the reported heading has wandered so far
+
+  const read = (dt: number): DeviceOrientationAngles => {
+    driftAngle += noise.drift * (dt / 1000);
+    if (noise.jitter === 0 && driftAngle === 0) return orientation;
+
+    const wobble: [number, number, number] = [gaussian(), gaussian(), gaussian()];
+    const reported = multiplyQuaternions(
+      multiplyQuaternions(
+        quaternionFromAxisAngle([0, 0, 1], driftAngle * DEG_TO_RAD),
+        quaternionFromMotion(orientation)
+      ),
+      quaternionFromAxisAngle(wobble, Math.hypot(...wobble) * noise.jitter * DEG_TO_RAD)
+    );
+    return motionFromQuaternion(normalizeQuaternion(reported));
+  };
+
+  return {
+    kind: 'simulated',
+    getOrientation: () => ({ ...orientation }),
+    setOrientation: (next) => {
+      orientation = { ...next };
+    },
+    setNoise: (next) => {
+      noise = { ...next };
+      if (noise.drift === 0) driftAngle = 0;
+    },
+    subscribe: async (listener: SampleListener) => {
+      const timer = setInterval(() => {
+        listener({ type: 'orientation', timestamp: performance.now(), ...read(SIMULATED_SAMPLE_INTERVAL_MS) });
+      }, SIMULATED_SAMPLE_INTERVAL_MS);
+      return () => clearInterval(timer);
+    }
+  };
+};
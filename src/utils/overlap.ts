@@ -0,0 +1,72 @@
+import { CapturePoint, CaptureSettings } from '../types/camera';
+import { detectFeatures, estimateTranslation, matchFeatures, toGrayscale } from './imageFeatures';
+import { loadRawImage } from './imageData';
+import { angleDifference } from './orientation';
+import { focalLengthFromFov } from './stitcher';
+
+// Overlap only needs a coarse shift estimate, so compare small copies
+const OVERLAP_MAX_DIMENSION = 320;
+
+/**
+ * Measures how much of the frame two consecutive shots share by matching
+ * features between downscaled copies. The yaw step between them seeds the
+ * search. Returns a percentage, or null when there was too little matching
+ * detail to tell.
+ */
+export const measureOverlap = async (
+  previousSrc: string,
+  currentSrc: string,
+  yawStep: number,
+  horizontalFov: number
+): Promise<number | null> => {
+  const [previous, current] = await Promise.all([
+    loadRawImage(previousSrc, OVERLAP_MAX_DIMENSION),
+    loadRawImage(currentSrc, OVERLAP_MAX_DIMENSION)
+  ]);
+
+  const focal = focalLengthFromFov(previous.width, horizontalFov);
+  const clampedStep = Math.max(-80, Math.min(80, yawStep));
+  const expectedDx = focal * Math.tan((clampedStep * Math.PI) / 180);
+
+  const matches = matchFeatures(
+    detectFeatures(toGrayscale(previous), 300, 12),
+    detectFeatures(toGrayscale(current), 300, 12),
+    { prior: { dx: expectedDx, dy: 0, radius: previous.width / 3 } }
+  );
+  const estimate = estimateTranslation(matches);
+  if (!estimate) return null;
+
+  const shared = (previous.width - Math.abs(estimate.dx)) / previous.width;
+  return Math.round(Math.max(0, Math.min(1, shared)) * 100);
+};
+
+/**
+ * Captured neighbour in the same row that a new shot should overlap. This is
+ * the nearest one by yaw rather than the latest, since centre-out sweeps jump
+ * back across the span halfway through.
+ */
+export const findOverlapReference = (points: CapturePoint[], point: CapturePoint): CapturePoint | undefined => {
+  const distance = (p: CapturePoint) => Math.abs(angleDifference(p.yaw, point.yaw));
+  return points
+    .filter(p => p.captured && p.imageData && p.row === point.row && p.id !== point.id)
+    .sort((a, b) => distance(a) - distance(b))[0];
+};
+
+export const isOverlapOutOfRange = (overlap: number | null | undefined, settings: CaptureSettings): boolean => {
+  if (overlap === null || overlap === undefined) return false;
+  return overlap < settings.minOverlap || overlap > settings.maxOverlap;
+};
+
+/**
+ * How far a neighbour's frame is shifted across this one, as a share of the
+ * frame width, for a pinhole camera turned `yawDelta` degrees. 1 or more
+ * means the frames no longer overlap.
+ */
+export const frameShiftFraction = (yawDelta: number, horizontalFov: number): number => {
+  if (Math.abs(yawDelta) >= 90) return Infinity;
+  return Math.tan((Math.abs(yawDelta) * Math.PI) / 180) / (2 * Math.tan((horizontalFov * Math.PI) / 360));
+};
+
+export const yawStepBetween = (from: CapturePoint, to: CapturePoint): number => {
+  return angleDifference(to.yaw, from.yaw);
+};
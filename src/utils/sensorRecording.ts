@@ -0,0 +1,222 @@
+import { z } from 'zod';
+import { CALIBRATION_VERSION, CaptureSession, MotionSample, OrientationCalibration } from '../types/camera';
+import {
+  RecordedAction,
+  RecordedActionEntry,
+  RecordedSessionStart,
+  SENSOR_RECORDING_VERSION,
+  SensorRecording
+} from '../types/recording';
+
+export interface SensorRecorder {
+  recordSample: (sample: MotionSample) => void;
+  recordAction: (action: RecordedAction) => void;
+  finish: () => SensorRecording;
+}
+
+/** Starts recording now; sample and action times are kept relative to this moment. */
+export const createSensorRecorder = (calibration: OrientationCalibration | null): SensorRecorder => {
+  const startedAt = performance.now();
+  const recordedAt = new Date().toISOString();
+  const samples: MotionSample[] = [];
+  const actions: RecordedActionEntry[] = [];
+
+  return {
+    recordSample: (sample) => {
+      samples.push({ ...sample, timestamp: sample.timestamp - startedAt });
+    },
+    recordAction: (action) => {
+      actions.push({ time: performance.now() - startedAt, action });
+    },
+    finish: () => ({
+      recordingVersion: SENSOR_RECORDING_VERSION,
+      recordedAt,
+      durationMs: performance.now() - startedAt,
+      device: typeof navigator === 'undefined' ? 'unknown' : navigator.userAgent,
+      calibration,
+      samples,
+      actions
+    })
+  };
+};
+
+export const toRecordedSessionStart = (session: CaptureSession): RecordedSessionStart => ({
+  layout: session.layout,
+  rows: session.rows,
+  points: session.points,
+  totalPoints: session.totalPoints,
+  referenceHeading: session.referenceHeading,
+  overlapPercentage: session.overlapPercentage,
+  sweep: session.sweep,
+  horizontalFov: session.horizontalFov,
+  verticalFov: session.verticalFov,
+  planName: session.planName,
+  captureSettings: session.captureSettings
+});
+
+export const serializeSensorRecording = (recording: SensorRecording): string => JSON.stringify(recording);
+
+export const getSensorRecordingFileName = (recording: SensorRecording): string => {
+  const stamp = recording.recordedAt.replace(/[:.]/g, '-').replace(/-\d+Z$/, '');
+  return `sensors_${stamp}.json`;
+};
+
+const nullableNumber = z.number().nullable();
+
+const motionSampleSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('orientation'),
+    timestamp: z.number(),
+    alpha: nullableNumber,
+    beta: nullableNumber,
+    gamma: nullableNumber
+  }),
+  z.object({
+    type: z.literal('motion'),
+    timestamp: z.number(),
+    rotationRate: z.object({ alpha: nullableNumber, beta: nullableNumber, gamma: nullableNumber }).nullable(),
+    gravity: z.object({ x: nullableNumber, y: nullableNumber, z: nullableNumber }).nullable()
+  })
+]);
+
+// Session snapshots are written by the app itself, so only the fields replay
+// relies on are checked
+const recordedSessionSchema = z.object({
+  layout: z.enum(['single-row', 'three-row', 'full-sphere', 'plan']),
+  rows: z.array(z.object({ pitch: z.number(), count: z.number() })),
+  points: z.array(z.object({
+    id: z.number(),
+    yaw: z.number(),
+    pitch: z.number(),
+    row: z.number(),
+    captured: z.boolean()
+  }).passthrough()).min(1),
+  totalPoints: z.number(),
+  referenceHeading: z.number(),
+  overlapPercentage: z.number(),
+  captureSettings: z.object({ alignmentTolerance: z.number() }).passthrough()
+}).passthrough();
+
+const recordedActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('session-start'), session: recordedSessionSchema }),
+  z.object({ type: z.literal('capture') }),
+  z.object({ type: z.literal('retake'), pointId: z.number() }),
+  z.object({ type: z.literal('delete'), pointId: z.number() }),
+  z.object({ type: z.literal('skip'), pointId: z.number() }),
+  z.object({ type: z.literal('stop') }),
+  z.object({ type: z.literal('reset') })
+]);
+
+const sensorRecordingSchema = z.object({
+  recordingVersion: z.literal(SENSOR_RECORDING_VERSION),
+  recordedAt: z.string(),
+  durationMs: z.number().nonnegative(),
+  device: z.string(),
+  calibration: z.object({
+    calibrationVersion: z.literal(CALIBRATION_VERSION).optional(),
+    pitchOffset: z.number(),
+    rollOffset: z.number(),
+    gyroBias: z.object({ alpha: z.number(), beta: z.number(), gamma: z.number() }).nullable(),
+    calibratedAt: z.string()
+  }).nullable(),
+  samples: z.array(motionSampleSchema),
+  actions: z.array(z.object({ time: z.number(), action: recordedActionSchema }))
+});
+
+export const parseSensorRecording = (text: string): { recording: SensorRecording } | { error: string } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { error: 'Not a valid JSON file' };
+  }
+
+  const result = sensorRecordingSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return { error: `${issue.path.join('.') || 'File'}: ${issue.message}` };
+  }
+  return { recording: result.data as SensorRecording };
+};
+
+export interface ReplayPlayer {
+  recording: SensorRecording;
+  addSampleListener: (listener: (sample: MotionSample) => void) => () => void;
+  addActionListener: (listener: (action: RecordedAction) => void) => () => void;
+  start: (onFinish?: () => void) => void;
+  stop: () => void;
+}
+
+type ReplayEvent =
+  | { time: number; sample: MotionSample; action?: undefined }
+  | { time: number; action: RecordedAction; sample?: undefined };
+
+/**
+ * Plays a recording back in real time. Samples keep their original spacing
+ * but are re-stamped against the current clock, so the orientation filter
+ * sees the same intervals it saw live. Events are dispatched strictly in
+ * recorded order, samples before an action recorded at the same moment.
+ */
+export const createReplayPlayer = (recording: SensorRecording): ReplayPlayer => {
+  const sampleListeners = new Set<(sample: MotionSample) => void>();
+  const actionListeners = new Set<(action: RecordedAction) => void>();
+  const events: ReplayEvent[] = [
+    ...recording.samples.map((sample): ReplayEvent => ({ time: sample.timestamp, sample })),
+    ...recording.actions.map(({ time, action }): ReplayEvent => ({ time, action }))
+  ].sort((a, b) => a.time - b.time || (a.sample ? 0 : 1) - (b.sample ? 0 : 1));
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let next = 0;
+
+  const stop = () => {
+    if (timer !== null) clearTimeout(timer);
+    timer = null;
+  };
+
+  const start = (onFinish?: () => void) => {
+    stop();
+    next = 0;
+    const startedAt = performance.now();
+
+    const tick = () => {
+      const elapsed = performance.now() - startedAt;
+      while (next < events.length && events[next].time <= elapsed) {
+        const event = events[next++];
+        if (event.sample) {
+          const sample = { ...event.sample, timestamp: startedAt + event.sample.timestamp };
+          sampleListeners.forEach(listener => listener(sample));
+        } else {
+          actionListeners.forEach(listener => listener(event.action));
+        }
+      }
+
+      if (next >= events.length) {
+        timer = null;
+        onFinish?.();
+        return;
+      }
+      timer = setTimeout(tick, Math.max(0, events[next].time - elapsed));
+    };
+
+    // Deferred so listeners attached in the same render are in place first
+    timer = setTimeout(tick, 0);
+  };
+
+  return {
+    recording,
+    addSampleListener: (listener) => {
+      sampleListeners.add(listener);
+      return () => {
+        sampleListeners.delete(listener);
+      };
+    },
+    addActionListener: (listener) => {
+      actionListeners.add(listener);
+      return () => {
+        actionListeners.delete(listener);
+      };
+    },
+    start,
+    stop
+  };
+};
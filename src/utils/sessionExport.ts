@@ -0,0 +1,79 @@
+import { Capacitor } from '@capacitor/core';
+import { Directory, Filesystem } from '@capacitor/filesystem';
+import { Share } from '@capacitor/share';
+import { CaptureSession } from '../types/camera';
+import { exportCaptureData, getImageFileName } from './cameraUtils';
+import { loadSessionImages } from './sessionStore';
+import { createZip, ZipEntry } from './zip';
+
+const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+const resolveImageBlobs = async (session: CaptureSession): Promise<Map<number, Blob>> => {
+  const stored = await loadSessionImages(session.id).catch(() => new Map<number, Blob>());
+
+  // Fall back to the in-memory copy for anything that never made it to storage
+  for (const point of session.points) {
+    if (point.captured && point.imageData && !stored.has(point.id)) {
+      const response = await fetch(point.imageData);
+      stored.set(point.id, await response.blob());
+    }
+  }
+  return stored;
+};
+
+export const getBundleFileName = (session: CaptureSession): string => `${session.id}.zip`;
+
+/** ZIP with every captured image plus a versioned `manifest.json`. */
+export const createSessionBundle = async (session: CaptureSession): Promise<Blob> => {
+  const manifest = exportCaptureData(session);
+  const images = await resolveImageBlobs(session);
+
+  const entries: ZipEntry[] = [
+    { name: 'manifest.json', data: JSON.stringify(manifest, null, 2), modified: session.endTime ?? new Date() }
+  ];
+  for (const point of session.points) {
+    const blob = images.get(point.id);
+    if (point.captured && blob) {
+      entries.push({ name: getImageFileName(point), data: blob, modified: point.capturedAt });
+    }
+  }
+
+  return createZip(entries);
+};
+
+/**
+ * Hands a file to the user: the native share sheet on device, a regular
+ * browser download everywhere else.
+ */
+export const deliverFile = async (blob: Blob, fileName: string, title: string = fileName): Promise<void> => {
+  if (Capacitor.isNativePlatform()) {
+    const { uri } = await Filesystem.writeFile({
+      path: fileName,
+      data: await blobToBase64(blob),
+      directory: Directory.Cache
+    });
+    await Share.share({ title, files: [uri] });
+    return;
+  }
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const exportSessionBundle = async (session: CaptureSession): Promise<void> => {
+  const bundle = await createSessionBundle(session);
+  await deliverFile(bundle, getBundleFileName(session), 'Capture session');
+};
@@ -0,0 +1,165 @@
+import { CaptureSession } from '../types/camera';
+
+const DB_NAME = 'align-shot-guide';
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+const IMAGES_STORE = 'images';
+
+interface StoredImage {
+  key: string;
+  sessionId: string;
+  pointId: number;
+  blob: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(IMAGES_STORE)) {
+          const images = db.createObjectStore(IMAGES_STORE, { keyPath: 'key' });
+          images.createIndex('sessionId', 'sessionId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const imageKey = (sessionId: string, pointId: number) => `${sessionId}/${pointId}`;
+
+// Image data lives in its own store as blobs, so session records stay small
+// and in-memory object URLs are never persisted
+const toStoredSession = (session: CaptureSession): CaptureSession => ({
+  ...session,
+  points: session.points.map(({ imageData, ...point }) => point)
+});
+
+export const saveSession = async (session: CaptureSession): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+  transaction.objectStore(SESSIONS_STORE).put(toStoredSession(session));
+  await transactionDone(transaction);
+};
+
+export const saveSessionImage = async (sessionId: string, pointId: number, blob: Blob): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(IMAGES_STORE, 'readwrite');
+  const record: StoredImage = { key: imageKey(sessionId, pointId), sessionId, pointId, blob };
+  transaction.objectStore(IMAGES_STORE).put(record);
+  await transactionDone(transaction);
+};
+
+export const deleteSessionImage = async (sessionId: string, pointId: number): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(IMAGES_STORE, 'readwrite');
+  transaction.objectStore(IMAGES_STORE).delete(imageKey(sessionId, pointId));
+  await transactionDone(transaction);
+};
+
+export const loadSessionImages = async (sessionId: string): Promise<Map<number, Blob>> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(IMAGES_STORE, 'readonly');
+  const records = await promisify<StoredImage[]>(
+    transaction.objectStore(IMAGES_STORE).index('sessionId').getAll(sessionId)
+  );
+  return new Map(records.map(record => [record.pointId, record.blob]));
+};
+
+export const listSessions = async (): Promise<CaptureSession[]> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(SESSIONS_STORE, 'readonly');
+  const sessions = await promisify<CaptureSession[]>(transaction.objectStore(SESSIONS_STORE).getAll());
+  return sessions.sort((a, b) => b.startTime.getTime() - a.startTime.getTime());
+};
+
+export const getSession = async (sessionId: string): Promise<CaptureSession | null> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(SESSIONS_STORE, 'readonly');
+  const session = await promisify<CaptureSession | undefined>(
+    transaction.objectStore(SESSIONS_STORE).get(sessionId)
+  );
+  return session ?? null;
+};
+
+/**
+ * Loads a session with its captured images attached as object URLs. Callers
+ * own the URLs and should revoke them once the session is discarded.
+ */
+export const loadSessionWithImages = async (sessionId: string): Promise<CaptureSession | null> => {
+  const session = await getSession(sessionId);
+  if (!session) return null;
+
+  const images = await loadSessionImages(sessionId);
+  return {
+    ...session,
+    points: session.points.map(point => {
+      const blob = images.get(point.id);
+      return blob ? { ...point, imageData: URL.createObjectURL(blob) } : point;
+    })
+  };
+};
+
+/** Most recent session that was still in progress when the app went away. */
+export const findResumableSession = async (): Promise<CaptureSession | null> => {
+  const sessions = await listSessions();
+  return sessions.find(session => session.isActive) ?? null;
+};
+
+export const renameSession = async (sessionId: string, name: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+  const done = transactionDone(transaction);
+  const store = transaction.objectStore(SESSIONS_STORE);
+  const session = await promisify<CaptureSession | undefined>(store.get(sessionId));
+  if (!session) {
+    transaction.abort();
+    await done.catch(() => undefined);
+    throw new Error('Session not found');
+  }
+  store.put({ ...session, name: name.trim() || undefined });
+  await done;
+};
+
+export const deleteSession = async (sessionId: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSIONS_STORE, IMAGES_STORE], 'readwrite');
+  const done = transactionDone(transaction);
+  transaction.objectStore(SESSIONS_STORE).delete(sessionId);
+  const images = transaction.objectStore(IMAGES_STORE);
+  const keys = await promisify(images.index('sessionId').getAllKeys(sessionId));
+  keys.forEach(key => images.delete(key));
+  await done;
+};
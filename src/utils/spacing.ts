@@ -0,0 +1,138 @@
+import { CaptureLayoutId, CaptureRow, CaptureSpacing, LensFov, SweepOptions } from '../types/camera';
+
+const DEG_TO_RAD = Math.PI / 180;
+const RAD_TO_DEG = 180 / Math.PI;
+
+// Rows the built-in layouts use when the horizon count is chosen by hand
+const MANUAL_ROW_PITCHES: Record<CaptureLayoutId, number[]> = {
+  'single-row': [0],
+  'three-row': [0, 45, -45],
+  'full-sphere': [0, 45, -45, 90, -90],
+  plan: [0]
+};
+
+export const DEFAULT_SWEEP: SweepOptions = {
+  span: 360,
+  direction: 'left-to-right',
+  start: 'edge'
+};
+
+// A row needs at least this many shots to close the circle with a usable overlap
+const MIN_ROW_POINTS = 3;
+
+/**
+ * Yaw range a single frame covers when aimed at the given elevation. Away
+ * from the horizon the same frame spans more heading, and once it reaches
+ * the pole it covers every heading at once.
+ */
+export const yawCoverageAt = (pitch: number, lens: LensFov): number => {
+  if (Math.abs(pitch) + lens.vertical / 2 >= 90) return 360;
+  const halfWidth = Math.tan((lens.horizontal / 2) * DEG_TO_RAD);
+  const coverage = 2 * Math.atan(halfWidth / Math.cos(pitch * DEG_TO_RAD)) * RAD_TO_DEG;
+  return Math.min(360, coverage);
+};
+
+/** Percent of a frame shared with its neighbour `yawStep` degrees away. */
+export const expectedOverlap = (yawStep: number, pitch: number, lens: LensFov): number => {
+  const coverage = yawCoverageAt(pitch, lens);
+  if (coverage >= 360) return 100;
+  return Math.round(Math.max(0, Math.min(1, 1 - yawStep / coverage)) * 100);
+};
+
+/**
+ * Fewest shots across `span` degrees of a row at this elevation that still
+ * share `overlap` percent. A full circle also needs the last shot to overlap
+ * the first; a partial span only needs its outer frame edges to reach the
+ * ends of the span.
+ */
+export const pointsForOverlap = (pitch: number, lens: LensFov, overlap: number, span: number = 360): number => {
+  const coverage = yawCoverageAt(pitch, lens);
+  if (coverage >= 360) return 1;
+  const maxStep = coverage * (1 - overlap / 100);
+  if (span >= 360) return Math.max(MIN_ROW_POINTS, Math.ceil(360 / maxStep));
+  if (coverage >= span) return 1;
+  return Math.ceil((span - coverage) / maxStep) + 1;
+};
+
+/** Yaw between neighbouring shots when `count` of them cover `span` degrees. */
+export const rowYawStep = (count: number, pitch: number, lens: LensFov, span: number): number => {
+  if (count <= 1) return 0;
+  if (span >= 360) return 360 / count;
+  return Math.max(0, span - yawCoverageAt(pitch, lens)) / (count - 1);
+};
+
+/**
+ * Target yaws for one row, in shooting order. Edge starts sweep from yaw 0
+ * to the far end; centre starts shoot yaw 0 first, sweep to the end in the
+ * chosen direction, then come back and finish the other side.
+ */
+export const sweepYaws = (count: number, pitch: number, lens: LensFov, sweep: SweepOptions): number[] => {
+  const step = rowYawStep(count, pitch, lens, sweep.span);
+  const sign = sweep.direction === 'left-to-right' ? 1 : -1;
+  const offsets = Array.from({ length: count }, (_, i) => i * step);
+
+  if (sweep.start === 'edge') return offsets.map(offset => sign * offset);
+
+  const relative = sweep.span >= 360
+    ? offsets.map(offset => (offset > 180 ? offset - 360 : offset))
+    : offsets.map(offset => offset - ((count - 1) * step) / 2);
+  const ahead = relative.filter(offset => offset >= 0).sort((a, b) => a - b);
+  const behind = relative.filter(offset => offset < 0).sort((a, b) => b - a);
+  return [...ahead, ...behind].map(offset => sign * offset);
+};
+
+// Rows away from the horizon cover a shorter circumference, so they need
+// proportionally fewer shots for the same overlap.
+const pointsForPitch = (pitch: number, horizonPoints: number): number => {
+  if (Math.abs(pitch) >= 90) return 1;
+  return Math.max(MIN_ROW_POINTS, Math.ceil(horizonPoints * Math.cos(pitch * DEG_TO_RAD)));
+};
+
+/**
+ * Row elevations for a layout. The full sphere adds rings above and below
+ * the horizon, spaced by the vertical field of view, until the zenith and
+ * nadir shots can close the gap.
+ */
+export const computeRowPitches = (layout: CaptureLayoutId, lens: LensFov, overlap: number): number[] => {
+  if (layout !== 'full-sphere') return MANUAL_ROW_PITCHES[layout];
+
+  const ringStep = lens.vertical * (1 - overlap / 100);
+  const poleRadius = Math.min(lens.horizontal, lens.vertical) / 2;
+  const poleReach = 90 - poleRadius * (1 - overlap / 100);
+
+  const rings: number[] = [];
+  let pitch = 0;
+  while (pitch + lens.vertical / 2 < poleReach) {
+    pitch += ringStep;
+    // A ring that would reach the pole is covered by the pole shot itself
+    if (pitch + lens.vertical / 2 >= 90) break;
+    rings.push(Math.round(pitch));
+  }
+
+  return [0, ...rings.flatMap(ring => [ring, -ring]), 90, -90];
+};
+
+export const buildCaptureRows = (
+  layout: CaptureLayoutId,
+  spacing: CaptureSpacing,
+  sweep: SweepOptions = DEFAULT_SWEEP
+): CaptureRow[] => {
+  const { lens, overlap, horizonPoints } = spacing;
+  if (horizonPoints !== null) {
+    return MANUAL_ROW_PITCHES[layout].map(pitch => ({ pitch, count: pointsForPitch(pitch, horizonPoints) }));
+  }
+  return computeRowPitches(layout, lens, overlap).map(pitch => {
+    let count = pointsForOverlap(pitch, lens, overlap, sweep.span);
+    // Starting from the centre of a partial span needs a shot right on it
+    if (sweep.start === 'center' && sweep.span < 360 && count > 1 && count % 2 === 0) count++;
+    return { pitch, count };
+  });
+};
+
+/** Overlap the horizon row will actually get with this spacing. */
+export const plannedOverlap = (spacing: CaptureSpacing, sweep: SweepOptions = DEFAULT_SWEEP): number => {
+  const { lens, horizonPoints } = spacing;
+  const count = horizonPoints ?? buildCaptureRows('single-row', spacing, sweep)[0].count;
+  if (count <= 1) return 0;
+  return expectedOverlap(rowYawStep(count, 0, lens, sweep.span), 0, lens);
+};
@@ -0,0 +1,149 @@
+import { RawImage, StitchRequest, StitchStage, TranslationEstimate } from '../types/stitching';
+import { detectFeatures, downscaleGray, estimateTranslation, matchFeatures, toGrayscale } from './imageFeatures';
+import { angleDifference } from './orientation';
+
+const DEG_TO_RAD = Math.PI / 180;
+// Feature matching runs on a reduced copy; offsets are scaled back up
+const MATCH_MAX_DIMENSION = 480;
+
+export const focalLengthFromFov = (width: number, horizontalFov: number): number => {
+  return width / 2 / Math.tan((horizontalFov * DEG_TO_RAD) / 2);
+};
+
+/**
+ * Projects a frame onto a cylinder of radius `focal`, which turns a pure
+ * rotation between neighbouring shots into a horizontal translation.
+ * Pixels that fall outside the source are left fully transparent.
+ */
+export const warpCylindrical = (image: RawImage, focal: number): RawImage => {
+  const { width, height } = image;
+  const cx = width / 2;
+  const cy = height / 2;
+  const outWidth = Math.round(2 * focal * Math.atan(width / 2 / focal));
+  const outCx = outWidth / 2;
+  const data = new Uint8ClampedArray(outWidth * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    const h = (y - cy) / focal;
+    for (let x = 0; x < outWidth; x++) {
+      const theta = (x - outCx) / focal;
+      const sx = focal * Math.tan(theta) + cx;
+      const sy = (h * focal) / Math.cos(theta) + cy;
+      if (sx < 0 || sy < 0 || sx >= width - 1 || sy >= height - 1) continue;
+
+      const x0 = Math.floor(sx), y0 = Math.floor(sy);
+      const fx = sx - x0, fy = sy - y0;
+      const i00 = (y0 * width + x0) * 4;
+      const i10 = i00 + 4;
+      const i01 = i00 + width * 4;
+      const i11 = i01 + 4;
+      const o = (y * outWidth + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        const top = image.data[i00 + c] * (1 - fx) + image.data[i10 + c] * fx;
+        const bottom = image.data[i01 + c] * (1 - fx) + image.data[i11 + c] * fx;
+        data[o + c] = top * (1 - fy) + bottom * fy;
+      }
+      data[o + 3] = 255;
+    }
+  }
+
+  return { width: outWidth, height, data };
+};
+
+export interface StitchResult {
+  image: RawImage;
+  seams: number[]; // x position in the output where each neighbouring pair meets
+  fallbackPairs: number; // pairs placed from orientation data because matching failed
+}
+
+/**
+ * Stitches a left-to-right strip of overlapping shots: cylindrical warp,
+ * feature matching between neighbours (seeded with the yaw difference),
+ * then feathered blending. `onProgress` receives 0-1 for the whole job.
+ */
+export const stitchPanorama = (
+  request: StitchRequest,
+  onProgress: (stage: StitchStage, progress: number) => void = () => undefined
+): StitchResult => {
+  const { images, horizontalFov } = request;
+  if (images.length === 0) {
+    throw new Error('No images to stitch');
+  }
+
+  const focal = focalLengthFromFov(images[0].image.width, horizontalFov);
+
+  const warped: RawImage[] = [];
+  images.forEach((input, index) => {
+    warped.push(warpCylindrical(input.image, focal));
+    onProgress('warping', ((index + 1) / images.length) * 0.3);
+  });
+
+  const scale = Math.max(1, Math.ceil(Math.max(warped[0].width, warped[0].height) / MATCH_MAX_DIMENSION));
+  const features = warped.map(image => detectFeatures(downscaleGray(toGrayscale(image), MATCH_MAX_DIMENSION)));
+
+  const positions: { x: number; y: number }[] = [{ x: 0, y: 0 }];
+  let fallbackPairs = 0;
+  for (let i = 1; i < warped.length; i++) {
+    const yawStep = angleDifference(images[i].yaw, images[i - 1].yaw);
+    const expectedDx = (focal * yawStep * DEG_TO_RAD) / scale;
+
+    const matches = matchFeatures(features[i - 1], features[i], {
+      prior: { dx: expectedDx, dy: 0, radius: warped[i].width / scale / 4 }
+    });
+    const estimate: TranslationEstimate | null = estimateTranslation(matches);
+    if (!estimate) fallbackPairs++;
+
+    const dx = estimate ? estimate.dx * scale : expectedDx * scale;
+    const dy = estimate ? estimate.dy * scale : 0;
+    positions.push({ x: positions[i - 1].x + dx, y: positions[i - 1].y + dy });
+    onProgress('matching', 0.3 + (i / (warped.length - 1)) * 0.4);
+  }
+
+  const minX = Math.min(...positions.map(p => p.x));
+  const minY = Math.min(...positions.map(p => p.y));
+  const maxX = Math.max(...positions.map((p, i) => p.x + warped[i].width));
+  const maxY = Math.max(...positions.map((p, i) => p.y + warped[i].height));
+  const outWidth = Math.ceil(maxX - minX);
+  const outHeight = Math.ceil(maxY - minY);
+
+  const accum = new Float32Array(outWidth * outHeight * 3);
+  const weights = new Float32Array(outWidth * outHeight);
+
+  warped.forEach((image, index) => {
+    const ox = Math.round(positions[index].x - minX);
+    const oy = Math.round(positions[index].y - minY);
+    const half = image.width / 2;
+
+    for (let y = 0; y < image.height; y++) {
+      for (let x = 0; x < image.width; x++) {
+        const src = (y * image.width + x) * 4;
+        if (image.data[src + 3] === 0) continue;
+
+        // Weight falls off towards the left/right edges so seams fade out
+        const weight = 1 - Math.abs(x - half) / half + 1e-3;
+        const dst = (y + oy) * outWidth + x + ox;
+        accum[dst * 3] += image.data[src] * weight;
+        accum[dst * 3 + 1] += image.data[src + 1] * weight;
+        accum[dst * 3 + 2] += image.data[src + 2] * weight;
+        weights[dst] += weight;
+      }
+    }
+    onProgress('blending', 0.7 + ((index + 1) / warped.length) * 0.3);
+  });
+
+  const data = new Uint8ClampedArray(outWidth * outHeight * 4);
+  for (let i = 0; i < weights.length; i++) {
+    if (weights[i] === 0) continue;
+    data[i * 4] = accum[i * 3] / weights[i];
+    data[i * 4 + 1] = accum[i * 3 + 1] / weights[i];
+    data[i * 4 + 2] = accum[i * 3 + 2] / weights[i];
+    data[i * 4 + 3] = 255;
+  }
+
+  const seams = positions.slice(1).map((position, index) => {
+    const previousRight = positions[index].x + warped[index].width;
+    return Math.round((position.x + previousRight) / 2 - minX);
+  });
+
+  return { image: { width: outWidth, height: outHeight, data }, seams, fallbackPairs };
+};
@@ -0,0 +1,28 @@
+import { StitchRequest, StitchWorkerMessage } from '../types/stitching';
+import { stitchPanorama } from '../utils/stitcher';
+
+const ctx = self as unknown as Worker;
+
+const post = (message: StitchWorkerMessage, transfer: Transferable[] = []) => {
+  ctx.postMessage(message, transfer);
+};
+
+ctx.onmessage = (event: MessageEvent<StitchRequest>) => {
+  try {
+    let lastReported = -1;
+    const result = stitchPanorama(event.data, (stage, progress) => {
+      // Avoid flooding the main thread with tiny updates
+      if (progress - lastReported >= 0.02 || progress >= 1) {
+        lastReported = progress;
+        post({ type: 'progress', stage, progress });
+      }
+    });
+
+    post(
+      { type: 'result', image: result.image, seams: result.seams, fallbackPairs: result.fallbackPairs },
+      [result.image.data.buffer]
+    );
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};